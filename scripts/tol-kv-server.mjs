@@ -0,0 +1,108 @@
+// scripts/tol-kv-server.mjs
+// Minimal backend for the "http" storage adapter (src/storageAdapters.tsx).
+// Keeps every key in one JSON file so a shared tree can live on a LAN box.
+//
+//   npm run kv-server                     # http://localhost:8787, ./tol-kv-data.json
+//   PORT=9000 TOL_KV_FILE=/srv/tree.json npm run kv-server
+//   TOL_KV_ORIGIN=http://tree.lan:5173    # where the app is served from ("*" = any page)
+//   TOL_KV_MAX_BYTES=10000000             # largest value a PUT may send (default 5 MB)
+import { createServer } from "node:http";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const FILE = process.env.TOL_KV_FILE ?? "tol-kv-data.json";
+// Only the app may call us from a browser; any other page gets refused.
+const ORIGIN = process.env.TOL_KV_ORIGIN ?? "http://localhost:5173";
+const MAX_BYTES = Number(process.env.TOL_KV_MAX_BYTES ?? 5_000_000);
+
+// A Map, so keys like "__proto__" or "toString" are plain keys.
+const data = new Map();
+if (existsSync(FILE)) {
+  const saved = JSON.parse(readFileSync(FILE, "utf8"));
+  if (typeof saved !== "object" || saved === null || Array.isArray(saved))
+    throw new Error(`${FILE} is not a JSON object`);
+  for (const [key, value] of Object.entries(saved)) {
+    if (typeof value === "string") data.set(key, value);
+    else console.warn(`${FILE}: ${key} is not a string, skipped`);
+  }
+}
+
+// write-then-rename so a crash never leaves a half-written file behind
+const persist = () => {
+  writeFileSync(`${FILE}.tmp`, JSON.stringify(Object.fromEntries(data)));
+  renameSync(`${FILE}.tmp`, FILE);
+};
+
+const CORS = {
+  "Access-Control-Allow-Origin": ORIGIN,
+  "Access-Control-Allow-Methods": "GET, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+  Vary: "Origin",
+};
+
+const send = (res, status, body, type = "text/plain;charset=utf-8") => {
+  res.writeHead(status, { ...CORS, "Content-Type": type });
+  res.end(body);
+};
+
+// Non-browser clients send no Origin; browsers always do for these requests.
+const allowed = (req) =>
+  ORIGIN === "*" || !req.headers.origin || req.headers.origin === ORIGIN;
+
+createServer((req, res) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const m = url.pathname.match(/^\/kv(?:\/(.+))?$/);
+
+  if (!allowed(req)) return send(res, 403, "origin not allowed");
+  if (req.method === "OPTIONS") return send(res, 204, "");
+  if (!m) return send(res, 404, "not found");
+
+  let key;
+  try {
+    key = m[1] && decodeURIComponent(m[1]);
+  } catch {
+    return send(res, 400, "bad key encoding");
+  }
+
+  if (!key) {
+    if (req.method !== "GET") return send(res, 405, "method not allowed");
+    return send(
+      res,
+      200,
+      JSON.stringify(Object.fromEntries(data)),
+      "application/json",
+    );
+  }
+
+  if (req.method === "GET") {
+    return data.has(key) ? send(res, 200, data.get(key)) : send(res, 404, "");
+  }
+  if (req.method === "DELETE") {
+    if (data.delete(key)) persist();
+    return send(res, 204, "");
+  }
+  if (req.method === "PUT") {
+    if (Number(req.headers["content-length"] ?? 0) > MAX_BYTES)
+      return send(res, 413, "value too large");
+    const chunks = [];
+    let size = 0;
+    req.on("data", (c) => {
+      size += c.length;
+      if (size > MAX_BYTES) {
+        send(res, 413, "value too large");
+        req.destroy();
+      } else chunks.push(c);
+    });
+    req.on("end", () => {
+      data.set(key, Buffer.concat(chunks).toString("utf8"));
+      persist();
+      send(res, 204, "");
+    });
+    return;
+  }
+  send(res, 405, "method not allowed");
+}).listen(PORT, () => {
+  console.log(
+    `tol kv server on http://localhost:${PORT} → ${FILE} (app origin ${ORIGIN})`,
+  );
+});
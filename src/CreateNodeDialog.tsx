@@ -9,6 +9,7 @@ import {
   Texture,
 } from "pixi.js";
 import "pixi.js/sprite-nine-slice";
+import { ARCHETYPES, DEFAULT_ARCHETYPE, type NodeArchetype } from "./nodeTypes";
 
 const PANEL_FRAME_URL = "/assets/ui/quest_frame.png";
 
@@ -46,12 +47,19 @@ function makeBtnTexture(app: Application, w = 100, h = 28): Texture {
   return app.renderer.generateTexture(g, { scaleMode: "linear" });
 }
 
-export type NewNodeMeta = { title: string; objectives: string[]; difficulty: number };
+export type NewNodeMeta = {
+  title: string;
+  objectives: string[];
+  difficulty: number;
+  archetype: NodeArchetype;
+};
 
 type OpenOpts = {
   app: Application;
   uiLayer: Container;
   attachNear: { x: number; y: number }; // stage coords (use toGlobal before calling)
+  initial?: NewNodeMeta; // edit mode: prefill from an existing node
+  submitLabel?: string; // defaults to "Create"
 };
 
 export async function openCreateNodeDialog(opts: OpenOpts): Promise<NewNodeMeta | null> {
@@ -83,7 +91,7 @@ export async function openCreateNodeDialog(opts: OpenOpts): Promise<NewNodeMeta
   const cancelPatch = new NineSliceSprite({
     texture: btnTex, leftWidth: 4, topHeight: 4, rightWidth: 4, bottomHeight: 4, width: 100, height: 28,
   });
-  const createText = new Text({ text: "Create", style: { fill: 0xffffff, fontSize: 12, fontWeight: "600" } });
+  const createText = new Text({ text: opts.submitLabel ?? "Create", style: { fill: 0xffffff, fontSize: 12, fontWeight: "600" } });
   const cancelText = new Text({ text: "Cancel", style: { fill: 0xffffff, fontSize: 12, fontWeight: "600" } });
   panel.addChild(createPatch, cancelPatch, createText, cancelText);
 
@@ -136,10 +144,11 @@ export async function openCreateNodeDialog(opts: OpenOpts): Promise<NewNodeMeta
   const FORM_CLASS = "tol-create-node-form";
   const styleTag = document.createElement("style");
   styleTag.textContent = `
-.${FORM_CLASS} input, .${FORM_CLASS} textarea {
+.${FORM_CLASS} input, .${FORM_CLASS} textarea, .${FORM_CLASS} select {
   font-family: Tahoma, Segoe UI, Noto Sans, system-ui, sans-serif;
   font-size: 14px; line-height: 20px;
 }
+.${FORM_CLASS} option { background: #1b1b1b; }
 .${FORM_CLASS} input::placeholder, .${FORM_CLASS} textarea::placeholder {
   color: rgba(255,255,255,0.78);
 }
@@ -211,7 +220,25 @@ export async function openCreateNodeDialog(opts: OpenOpts): Promise<NewNodeMeta
   inputDiff.placeholder = "Difficulty (0–33)";
   styleField(inputDiff);
 
-  form.append(inputTitle, inputObj, inputDiff);
+  // size and outline on the tree: minor step … keystone
+  const selectArch = document.createElement("select");
+  for (const a of Object.keys(ARCHETYPES)) selectArch.add(new Option(a, a));
+  selectArch.value = DEFAULT_ARCHETYPE;
+  selectArch.title = "Archetype";
+  styleField(selectArch);
+
+  const lastRow = document.createElement("div");
+  Object.assign(lastRow.style, { display: "flex", gap: `${GAP}px` } as CSSStyleDeclaration);
+  lastRow.append(inputDiff, selectArch);
+
+  if (opts.initial) {
+    inputTitle.value = opts.initial.title;
+    inputObj.value = opts.initial.objectives.join("\n");
+    inputDiff.value = String(opts.initial.difficulty);
+    selectArch.value = opts.initial.archetype;
+  }
+
+  form.append(inputTitle, inputObj, lastRow);
   document.body.appendChild(form);
 
   const placeForm = () => {
@@ -243,7 +270,8 @@ export async function openCreateNodeDialog(opts: OpenOpts): Promise<NewNodeMeta
       const objectives = (inputObj.value || "").split(/\r?\n/).map(s => s.trim()).filter(Boolean);
       const diff = Math.max(0, Math.min(33, Math.round(Number(inputDiff.value || "0"))));
       cleanup();
-      resolve({ title, objectives, difficulty: diff });
+      const archetype = selectArch.value as NodeArchetype;
+      resolve({ title, objectives, difficulty: diff, archetype });
     };
 
     const cancel = () => { cleanup(); resolve(null); };
@@ -0,0 +1,167 @@
+// src/Dashboard.tsx
+import { Application, Container, Graphics, Text } from "pixi.js";
+import { NodeStatus, statusToTheme } from "./nodeTypes";
+import { computeProgress, type ProgressEntry } from "./progress";
+
+/* ───────────────────────── constants ───────────────────────── */
+const WIDTH = 280;
+const MARGIN = 12;
+const PAD = 10;
+const RADIUS = 6;
+const BAR_W = 90;
+const BAR_H = 6;
+const FONT = "Tahoma, Segoe UI, Noto Sans, system-ui, sans-serif";
+const ACCENT = 0xfff1c4;
+const STATUSES = [NodeStatus.Locked, NodeStatus.Available, NodeStatus.Learned];
+
+const pct = (f: number) => `${Math.round(f * 100)}%`;
+const clip = (t: string, n = 26) =>
+  t.length > n ? `${t.slice(0, n - 1)}…` : t;
+
+/* ───────────────────── Dashboard ───────────────────── */
+/**
+ * Top-right progress overlay: status counts, objective completion,
+ * difficulty-weighted progress, a per-level breakdown and the cheapest
+ * Available nodes. Like the minimap it redraws on the next frame after
+ * `invalidate()`, and only while shown.
+ */
+export class Dashboard {
+  readonly container = new Container();
+  private bg = new Graphics();
+  private body = new Container();
+  private dirty = true;
+
+  constructor(
+    private app: Application,
+    uiLayer: Container,
+    private source: () => ProgressEntry[],
+    private onPick: (id: string) => void,
+  ) {
+    this.container.addChild(this.bg, this.body);
+    this.container.zIndex = 9_000;
+    this.container.eventMode = "static";
+    this.container.visible = false;
+    uiLayer.addChild(this.container);
+
+    app.ticker.add(() => {
+      if (this.dirty && this.container.visible) this.draw();
+    });
+  }
+
+  invalidate() {
+    this.dirty = true;
+  }
+
+  /** Re-anchors to the top-right corner after a resize. */
+  place() {
+    this.container.position.set(
+      Math.round(this.app.screen.width - WIDTH - MARGIN),
+      MARGIN,
+    );
+  }
+
+  get visible() {
+    return this.container.visible;
+  }
+
+  set visible(v: boolean) {
+    this.container.visible = v;
+    if (v) this.place();
+  }
+
+  /* ───────── drawing ───────── */
+  private draw() {
+    this.dirty = false;
+    for (const c of this.body.removeChildren()) c.destroy();
+    const s = computeProgress(this.source());
+    let y = PAD;
+
+    const text = (
+      str: string,
+      x: number,
+      opts: { fill?: number; size?: number; bold?: boolean } = {},
+    ) => {
+      const t = new Text({
+        text: str,
+        style: {
+          fill: opts.fill ?? 0xffffff,
+          fontFamily: FONT,
+          fontSize: opts.size ?? 12,
+          fontWeight: opts.bold ? "700" : "400",
+        },
+      });
+      t.position.set(x, y);
+      this.body.addChild(t);
+      return t;
+    };
+    const bar = (frac: number, color = ACCENT) => {
+      const x = WIDTH - PAD - BAR_W;
+      const g = new Graphics()
+        .roundRect(x, y + 5, BAR_W, BAR_H, 3)
+        .fill({ color: 0xffffff, alpha: 0.15 });
+      if (frac > 0)
+        g.roundRect(x, y + 5, Math.max(BAR_H, BAR_W * frac), BAR_H, 3).fill({
+          color,
+        });
+      this.body.addChild(g);
+      text(pct(frac), x - 34, { size: 11 });
+    };
+    const nextLine = (h = 18) => (y += h);
+
+    text("Progress", PAD, { size: 14, bold: true });
+    nextLine(24);
+
+    let x = PAD;
+    for (const st of STATUSES) {
+      const t = text(`● ${st} ${s.counts[st]}`, x, {
+        fill: statusToTheme[st].glow,
+      });
+      x += t.width + 10;
+    }
+    nextLine(22);
+
+    const { done, total } = s.objectives;
+    text(`Objectives ${done}/${total}`, PAD);
+    bar(total ? done / total : 0);
+    nextLine();
+    text("Weighted by difficulty", PAD);
+    bar(s.weighted);
+    nextLine(24);
+
+    text("By level", PAD, { bold: true });
+    nextLine();
+    for (const l of s.levels) {
+      text(`L${l.level}  ${l.learned}/${l.nodes} learned`, PAD, {
+        fill: l.nodes ? 0xffffff : 0x888888,
+      });
+      bar(l.weighted);
+      nextLine();
+    }
+    nextLine(6);
+
+    text("Quick wins", PAD, { bold: true });
+    nextLine();
+    if (!s.quickWins.length) {
+      text("No available nodes", PAD, { fill: 0x888888 });
+      nextLine();
+    }
+    for (const e of s.quickWins) {
+      const left = e.total - e.done;
+      const t = text(
+        `${clip(e.title || "Untitled")} · ${e.difficulty}/33 · ${left} left`,
+        PAD,
+        { fill: statusToTheme[NodeStatus.Available].glow },
+      );
+      t.eventMode = "static";
+      t.cursor = "pointer";
+      t.on("pointertap", () => this.onPick(e.id));
+      nextLine();
+    }
+
+    this.bg
+      .clear()
+      .roundRect(0, 0, WIDTH, y + PAD - 4, RADIUS)
+      .fill({ color: 0x000000, alpha: 0.78 })
+      .stroke({ color: 0xffffff, width: 1, alpha: 0.25 });
+  }
+}
@@ -0,0 +1,189 @@
+// src/Minimap.tsx
+import {
+  Application,
+  Container,
+  Graphics,
+  Sprite,
+  Texture,
+  type FederatedPointerEvent,
+} from "pixi.js";
+import type { Viewport } from "pixi-viewport";
+import { NodeStatus, statusToTheme } from "./nodeTypes";
+import { centerOn } from "./camera";
+
+/* ───────────────────────── Types & constants ───────────────────────── */
+export type MinimapNode = {
+  id: string;
+  x: number;
+  y: number;
+  status: NodeStatus;
+};
+export type MinimapEdge = { from: string; to: string };
+
+const MAP_WIDTH = 160; // screen px; height follows the design aspect
+const MARGIN = 12;
+const PAD = 4;
+const RADIUS = 6;
+const DOT_PX = 2.5;
+
+/* ───────────────────── Minimap ───────────────────── */
+/**
+ * Bottom-right overview of the whole design: background, edges, nodes
+ * coloured by status, and the camera's visible area as a rectangle. Clicking
+ * jumps the camera there; dragging moves it live.
+ */
+export class Minimap {
+  readonly container = new Container();
+  private bg = new Graphics();
+  private edges = new Graphics();
+  private nodes = new Graphics();
+  private view = new Graphics();
+  private map = new Container();
+
+  private scale: number; // minimap px per design px
+  private dirty = true;
+  private dragOffset: { dx: number; dy: number } | null = null;
+
+  constructor(
+    private app: Application,
+    uiLayer: Container,
+    private camera: Viewport,
+    background: Texture,
+    private designW: number,
+    private designH: number,
+    private source: () => { nodes: MinimapNode[]; edges: MinimapEdge[] },
+  ) {
+    this.scale = MAP_WIDTH / designW;
+    const w = MAP_WIDTH + PAD * 2;
+    const h = designH * this.scale + PAD * 2;
+
+    this.bg
+      .roundRect(0, 0, w, h, RADIUS)
+      .fill({ color: 0x000000, alpha: 0.72 })
+      .stroke({ color: 0xffffff, width: 1, alpha: 0.25 });
+
+    const sprite = new Sprite(background);
+    sprite.width = MAP_WIDTH;
+    sprite.height = designH * this.scale;
+    sprite.alpha = 0.55;
+
+    this.map.position.set(PAD, PAD);
+    this.map.addChild(sprite, this.edges, this.nodes, this.view);
+    this.container.addChild(this.bg, this.map);
+    this.container.zIndex = 9_000;
+    this.container.eventMode = "static";
+    this.container.cursor = "pointer";
+    this.container.on("pointerdown", (e) => this.onPointerDown(e));
+    uiLayer.addChild(this.container);
+
+    camera.on("moved", () => this.drawView());
+    camera.on("zoomed", () => this.drawView());
+    app.ticker.add(() => {
+      if (this.dirty) this.drawTree();
+    });
+    this.place();
+    this.drawView();
+  }
+
+  /** Nodes or edges changed; redrawn once on the next frame. */
+  invalidate() {
+    this.dirty = true;
+  }
+
+  /** Re-anchors to the bottom-right corner after a resize. */
+  place() {
+    const b = this.bg.getLocalBounds();
+    this.container.position.set(
+      Math.round(this.app.screen.width - b.width - MARGIN),
+      Math.round(this.app.screen.height - b.height - MARGIN),
+    );
+    this.drawView();
+  }
+
+  get visible() {
+    return this.container.visible;
+  }
+
+  set visible(v: boolean) {
+    this.container.visible = v;
+  }
+
+  /* ───────── drawing ───────── */
+  private drawTree() {
+    this.dirty = false;
+    const { nodes, edges } = this.source();
+    const s = this.scale;
+    const byId = new Map(nodes.map((n) => [n.id, n]));
+
+    this.edges.clear();
+    for (const e of edges) {
+      const a = byId.get(e.from);
+      const b = byId.get(e.to);
+      if (!a || !b) continue;
+      this.edges.moveTo(a.x * s, a.y * s).lineTo(b.x * s, b.y * s);
+    }
+    this.edges.stroke({ color: 0xffffff, width: 1, alpha: 0.35 });
+
+    this.nodes.clear();
+    for (const n of nodes) {
+      this.nodes
+        .circle(n.x * s, n.y * s, DOT_PX)
+        .fill({ color: statusToTheme[n.status].glow })
+        .stroke({ color: 0xffffff, width: 0.5, alpha: 0.6 });
+    }
+  }
+
+  private drawView() {
+    const r = this.camera.getVisibleBounds();
+    const s = this.scale;
+    const x0 = Math.max(0, r.x * s);
+    const y0 = Math.max(0, r.y * s);
+    const x1 = Math.min(this.designW * s, (r.x + r.width) * s);
+    const y1 = Math.min(this.designH * s, (r.y + r.height) * s);
+
+    this.view.clear();
+    if (x1 <= x0 || y1 <= y0) return;
+    this.view
+      .rect(x0, y0, x1 - x0, y1 - y0)
+      .fill({ color: 0xffffff, alpha: 0.08 })
+      .stroke({ color: 0xffffff, width: 1, alpha: 0.9 });
+  }
+
+  /* ───────── navigation ───────── */
+  private toDesign(e: { global: { x: number; y: number } }) {
+    const p = this.map.toLocal(e.global);
+    return { x: p.x / this.scale, y: p.y / this.scale };
+  }
+
+  private onPointerDown(e: FederatedPointerEvent) {
+    e.stopPropagation();
+    const p = this.toDesign(e);
+    const r = this.camera.getVisibleBounds();
+
+    // Grabbing the rectangle keeps the grab point under the cursor;
+    // anywhere else jumps there first and drags from the centre.
+    if (r.contains(p.x, p.y)) {
+      const c = this.camera.center;
+      this.dragOffset = { dx: c.x - p.x, dy: c.y - p.y };
+    } else {
+      this.dragOffset = { dx: 0, dy: 0 };
+      centerOn(this.camera, p.x, p.y);
+    }
+
+    const move = (ev: PointerEvent) => {
+      if (!this.dragOffset) return;
+      const rect = this.app.canvas.getBoundingClientRect();
+      const q = this.toDesign({
+        global: { x: ev.clientX - rect.left, y: ev.clientY - rect.top },
+      });
+      centerOn(this.camera, q.x + this.dragOffset.dx, q.y + this.dragOffset.dy);
+    };
+    const up = () => {
+      this.dragOffset = null;
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", up);
+    };
+    window.addEventListener("pointermove", move, { passive: true });
+    window.addEventListener("pointerup", up, { passive: true });
+  }
+}
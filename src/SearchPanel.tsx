@@ -0,0 +1,250 @@
+// src/SearchPanel.tsx
+import { NodeStatus, statusToTheme } from "./nodeTypes";
+import {
+  emptyFilter,
+  filterActive,
+  searchNodes,
+  type NodeFilter,
+  type SearchEntry,
+  type SearchHit,
+} from "./search";
+
+/* ───────────────────────── constants ───────────────────────── */
+const PANEL_CLASS = "tol-search-panel";
+const WIDTH = 340;
+const FONT = "Tahoma, Segoe UI, Noto Sans, system-ui, sans-serif";
+const STATUSES = [NodeStatus.Locked, NodeStatus.Available, NodeStatus.Learned];
+const LEVELS = [1, 2, 3, 4, 5];
+
+const css = (c: number) => `#${c.toString(16).padStart(6, "0")}`;
+
+function toggle<T>(set: Set<T>, v: T) {
+  if (!set.delete(v)) set.add(v);
+}
+
+const STYLE = `
+.${PANEL_CLASS} { font-family: ${FONT}; font-size: 13px; color: #fff; }
+.${PANEL_CLASS} input[type=text] {
+  width: 100%; box-sizing: border-box; padding: 8px 10px; color: #fff;
+  background: rgba(0,0,0,0.35); border: 1px solid rgba(255,255,255,0.25);
+  border-radius: 6px; outline: none; font: inherit;
+}
+.${PANEL_CLASS} ul { list-style: none; margin: 8px 0 0; padding: 0; max-height: 320px; overflow-y: auto; }
+.${PANEL_CLASS} li { padding: 5px 8px; border-radius: 4px; cursor: pointer; }
+.${PANEL_CLASS} li.active, .${PANEL_CLASS} li:hover { background: rgba(255,241,196,0.16); }
+.${PANEL_CLASS} .sub { opacity: 0.7; font-size: 11px; }
+.${PANEL_CLASS} .chips { display: flex; flex-wrap: wrap; gap: 4px; margin-top: 8px; align-items: center; }
+.${PANEL_CLASS} button {
+  font: inherit; font-size: 11px; color: #fff; cursor: pointer; padding: 3px 8px;
+  background: rgba(255,255,255,0.1); border: 1px solid rgba(255,255,255,0.3); border-radius: 4px;
+}
+.${PANEL_CLASS} button.on { background: rgba(255,241,196,0.3); border-color: #fff1c4; }
+`;
+
+/* ───────────────────── SearchPanel ───────────────────── */
+/**
+ * "/" search box over node titles and objectives, plus filter toggles
+ * (status, difficulty level, "dim what doesn't match the text"). Filters
+ * stay on after the box closes; the owner dims nodes in `onFilter`.
+ */
+export class SearchPanel {
+  private root = document.createElement("div");
+  private input = document.createElement("input");
+  private list = document.createElement("ul");
+  private textToggle = document.createElement("button");
+  private chips = new Map<string, HTMLButtonElement>();
+  private styleTag = document.createElement("style");
+
+  private hits: SearchHit[] = [];
+  private active = 0;
+  private filter: NodeFilter = emptyFilter();
+
+  constructor(
+    private entries: () => SearchEntry[],
+    private onPick: (id: string) => void,
+    private onFilter: (f: NodeFilter) => void,
+  ) {
+    this.styleTag.textContent = STYLE;
+    this.root.className = PANEL_CLASS;
+    Object.assign(this.root.style, {
+      position: "fixed",
+      top: "12px",
+      left: "12px",
+      width: `${WIDTH}px`,
+      zIndex: "30",
+      padding: "10px",
+      background: "rgba(0,0,0,0.82)",
+      border: "1px solid rgba(255,255,255,0.25)",
+      borderRadius: "6px",
+    } as CSSStyleDeclaration);
+
+    this.input.type = "text";
+    this.input.placeholder = "Search titles and objectives…";
+    this.input.addEventListener("input", () => this.onQuery());
+    this.input.addEventListener("keydown", (e) => this.onKey(e));
+
+    const statusRow = this.chipRow(
+      "Status",
+      STATUSES.map((s) => ({
+        key: `s:${s}`,
+        label: s,
+        color: css(statusToTheme[s].glow),
+      })),
+    );
+    const levelRow = this.chipRow(
+      "Level",
+      LEVELS.map((l) => ({ key: `l:${l}`, label: `L${l}` })),
+    );
+
+    this.textToggle.textContent = "Dim non-matching";
+    this.textToggle.title = "Dim nodes that don't match the search text";
+    this.textToggle.onclick = () => {
+      this.filter.text = this.filter.text ? "" : this.input.value.trim();
+      this.emitFilter();
+    };
+    const clear = document.createElement("button");
+    clear.textContent = "Clear filters";
+    clear.onclick = () => {
+      this.filter = emptyFilter();
+      this.emitFilter();
+    };
+    levelRow.append(this.textToggle, clear);
+
+    this.root.append(this.input, statusRow, levelRow, this.list);
+    // clicks on results and toggles keep the focus (and the keys) in the input
+    this.root.addEventListener("mousedown", (e) => {
+      if (e.target !== this.input) e.preventDefault();
+    });
+  }
+
+  get isOpen() {
+    return this.root.isConnected;
+  }
+
+  get filtering() {
+    return filterActive(this.filter);
+  }
+
+  open() {
+    if (!this.isOpen) {
+      document.head.appendChild(this.styleTag);
+      document.body.appendChild(this.root);
+    }
+    this.input.focus();
+    this.input.select();
+    this.onQuery();
+  }
+
+  close() {
+    this.input.blur();
+    this.root.remove();
+    this.styleTag.remove();
+  }
+
+  /** Node data changed: re-run the query if the box is showing. */
+  refresh() {
+    if (this.isOpen) this.onQuery();
+  }
+
+  /* ───────── results ───────── */
+  private onQuery() {
+    const q = this.input.value;
+    this.hits = q.trim() ? searchNodes(this.entries(), q) : [];
+    this.active = 0;
+    // the text filter follows the box while it's on
+    if (this.filter.text && q.trim() && q.trim() !== this.filter.text) {
+      this.filter.text = q.trim();
+      this.emitFilter();
+    }
+    this.renderList();
+  }
+
+  private renderList() {
+    this.list.replaceChildren(
+      ...this.hits.map((h, i) => {
+        const li = document.createElement("li");
+        if (i === this.active) li.className = "active";
+        const { title, status, difficulty } = h.entry;
+        const main = document.createElement("div");
+        main.textContent = title || "Untitled";
+        const sub = document.createElement("div");
+        sub.className = "sub";
+        const dot = document.createElement("span");
+        dot.textContent = "● ";
+        dot.style.color = css(statusToTheme[status].glow);
+        sub.append(
+          dot,
+          `${status} · ${difficulty}/33`,
+          h.objective ? ` · “${h.objective}”` : "",
+        );
+        li.append(main, sub);
+        li.onclick = () => this.pick(i);
+        return li;
+      }),
+    );
+    this.list.children[this.active]?.scrollIntoView({ block: "nearest" });
+  }
+
+  private pick(i: number) {
+    const hit = this.hits[i];
+    if (!hit) return;
+    this.close();
+    this.onPick(hit.entry.id);
+  }
+
+  // Typing here must not reach the canvas shortcuts.
+  private onKey(e: KeyboardEvent) {
+    e.stopPropagation();
+    if (e.key === "Escape") this.close();
+    else if (e.key === "Enter") this.pick(this.active);
+    else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const n = this.hits.length;
+      if (!n) return;
+      this.active = (this.active + (e.key === "ArrowDown" ? 1 : n - 1)) % n;
+      this.renderList();
+    }
+  }
+
+  /* ───────── filters ───────── */
+  private chipRow(
+    heading: string,
+    chips: { key: string; label: string; color?: string }[],
+  ) {
+    const row = document.createElement("div");
+    row.className = "chips";
+    const label = document.createElement("span");
+    label.className = "sub";
+    label.textContent = heading;
+    row.append(label);
+    for (const c of chips) {
+      const b = document.createElement("button");
+      b.textContent = c.label;
+      if (c.color) b.style.borderLeft = `3px solid ${c.color}`;
+      b.onclick = () => this.toggleChip(c.key);
+      this.chips.set(c.key, b);
+      row.append(b);
+    }
+    return row;
+  }
+
+  private toggleChip(key: string) {
+    const [kind, value] = key.split(":");
+    if (kind === "s") toggle(this.filter.statuses, value as NodeStatus);
+    else toggle(this.filter.levels, Number(value));
+    this.emitFilter();
+  }
+
+  private emitFilter() {
+    for (const [key, b] of this.chips) {
+      const [kind, value] = key.split(":");
+      const on =
+        kind === "s"
+          ? this.filter.statuses.has(value as NodeStatus)
+          : this.filter.levels.has(Number(value));
+      b.classList.toggle("on", on);
+    }
+    this.textToggle.classList.toggle("on", !!this.filter.text);
+    this.onFilter(this.filter);
+  }
+}
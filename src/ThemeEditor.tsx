@@ -0,0 +1,361 @@
+// src/ThemeEditor.tsx
+import { Application, Container, Graphics, Text } from "pixi.js";
+import { makeThemedNode, type NodeTheme } from "./node_drawer";
+import { ARCHETYPES, DEFAULT_ARCHETYPE, NodeStatus } from "./nodeTypes";
+import {
+  gradientStops,
+  isPreset,
+  parseTheme,
+  themeToJSON,
+  toHex,
+  type TreeTheme,
+} from "./themes";
+
+/* ───────────────────────── constants ───────────────────────── */
+const PANEL_CLASS = "tol-theme-editor";
+const WIDTH = 320;
+const FONT = "Tahoma, Segoe UI, Noto Sans, system-ui, sans-serif";
+const STATUSES = [NodeStatus.Locked, NodeStatus.Available, NodeStatus.Learned];
+const PREVIEW_R = ARCHETYPES[DEFAULT_ARCHETYPE].radius; // as drawn on the tree
+const PREVIEW_GAP = PREVIEW_R * 2 + 36;
+const PREVIEW_Y = PREVIEW_R + 22; // node centres; room for the glow above
+
+const STYLE = `
+.${PANEL_CLASS} { font-family: ${FONT}; font-size: 13px; color: #fff; }
+.${PANEL_CLASS} .row { display: flex; align-items: center; justify-content: space-between; margin-top: 6px; }
+.${PANEL_CLASS} select, .${PANEL_CLASS} input[type=text], .${PANEL_CLASS} input[type=number] {
+  font: inherit; color: #fff; background: rgba(0,0,0,0.35);
+  border: 1px solid rgba(255,255,255,0.25); border-radius: 4px; padding: 3px 6px;
+}
+.${PANEL_CLASS} select, .${PANEL_CLASS} input[type=text] { width: 190px; }
+.${PANEL_CLASS} input[type=number] { width: 60px; }
+.${PANEL_CLASS} input[type=color] { width: 60px; height: 24px; border: none; background: none; }
+.${PANEL_CLASS} .tabs, .${PANEL_CLASS} .buttons { display: flex; gap: 4px; margin-top: 8px; flex-wrap: wrap; }
+.${PANEL_CLASS} button {
+  font: inherit; font-size: 11px; color: #fff; cursor: pointer; padding: 3px 8px;
+  background: rgba(255,255,255,0.1); border: 1px solid rgba(255,255,255,0.3); border-radius: 4px;
+}
+.${PANEL_CLASS} button.on { background: rgba(255,241,196,0.3); border-color: #fff1c4; }
+.${PANEL_CLASS} .sub { opacity: 0.7; font-size: 11px; margin-top: 6px; }
+`;
+
+// The colour a core gradient was built from: its 0.4 stop, else the glow.
+function coreOf(t: NodeTheme): number {
+  const stop = t.stops.find(([p]) => p === 0.4) ?? t.stops[2];
+  const m = stop?.[1].match(/rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/);
+  return m ? (+m[1] << 16) | (+m[2] << 8) | +m[3] : t.glow;
+}
+
+const copyTheme = (t: TreeTheme): TreeTheme => ({
+  ...t,
+  statuses: {
+    [NodeStatus.Locked]: { ...t.statuses[NodeStatus.Locked] },
+    [NodeStatus.Available]: { ...t.statuses[NodeStatus.Available] },
+    [NodeStatus.Learned]: { ...t.statuses[NodeStatus.Learned] },
+  },
+});
+
+/* ───────────────────── ThemeEditor ───────────────────── */
+/**
+ * "c" panel: pick the tree's theme, edit the palette of each status with a
+ * live preview, load and save themes as JSON. Presets are never changed in
+ * place; the first edit turns one into a custom copy. Every change goes to
+ * `onChange`, which applies it and, unless it's a step of a colour-picker
+ * drag (`persist` false), stores it.
+ */
+export class ThemeEditor {
+  private root = document.createElement("div");
+  private styleTag = document.createElement("style");
+  private select = document.createElement("select");
+  private nameInput = document.createElement("input");
+  private tabs = document.createElement("div");
+  private fields = document.createElement("div");
+  private note = document.createElement("div");
+  private preview = new Container();
+
+  private draft!: TreeTheme;
+  private tab = NodeStatus.Available;
+
+  constructor(
+    private app: Application,
+    uiLayer: Container,
+    private themes: () => { list: TreeTheme[]; active: TreeTheme },
+    private onChange: (theme: TreeTheme, persist: boolean) => void,
+  ) {
+    this.styleTag.textContent = STYLE;
+    this.root.className = PANEL_CLASS;
+    Object.assign(this.root.style, {
+      position: "fixed",
+      top: "12px",
+      left: "12px",
+      width: `${WIDTH}px`,
+      zIndex: "30",
+      padding: "10px",
+      background: "rgba(0,0,0,0.82)",
+      border: "1px solid rgba(255,255,255,0.25)",
+      borderRadius: "6px",
+    } as CSSStyleDeclaration);
+
+    this.select.onchange = () => {
+      const t = this.themes().list.find((x) => x.id === this.select.value);
+      if (t) this.commit(t);
+    };
+    this.nameInput.type = "text";
+    this.nameInput.onchange = () =>
+      this.edit((t) => (t.name = this.nameInput.value.trim() || t.name));
+    // typing here must not reach the canvas shortcuts
+    this.root.addEventListener("keydown", (e) => {
+      e.stopPropagation();
+      if (e.key === "Escape") this.close();
+    });
+
+    this.tabs.className = "tabs";
+    for (const s of STATUSES) {
+      const b = document.createElement("button");
+      b.textContent = s;
+      b.dataset.status = s;
+      b.onclick = () => {
+        this.tab = s;
+        this.render();
+      };
+      this.tabs.append(b);
+    }
+
+    const buttons = document.createElement("div");
+    buttons.className = "buttons";
+    buttons.append(
+      this.button("Load JSON…", () => void this.load()),
+      this.button("Save JSON", () => this.save()),
+      this.button("Close", () => this.close()),
+    );
+    this.note.className = "sub";
+
+    this.root.append(
+      this.row("Theme", this.select),
+      this.row("Name", this.nameInput),
+      this.tabs,
+      this.fields,
+      buttons,
+      this.note,
+    );
+
+    this.preview.zIndex = 9_500;
+    this.preview.visible = false;
+    uiLayer.addChild(this.preview);
+  }
+
+  get isOpen() {
+    return this.root.isConnected;
+  }
+
+  open() {
+    this.draft = copyTheme(this.themes().active);
+    this.note.textContent = "";
+    if (!this.isOpen) {
+      document.head.appendChild(this.styleTag);
+      document.body.appendChild(this.root);
+    }
+    this.preview.visible = true;
+    this.render();
+  }
+
+  close() {
+    this.root.remove();
+    this.styleTag.remove();
+    this.preview.visible = false;
+  }
+
+  /* ───────── form ───────── */
+  private render() {
+    this.renderHeader();
+    this.renderFields();
+    this.drawPreview();
+  }
+
+  private renderHeader() {
+    const { list } = this.themes();
+    this.select.replaceChildren(
+      ...list.map((t) => {
+        const o = document.createElement("option");
+        o.value = t.id;
+        o.textContent = isPreset(t.id) ? t.name : `${t.name} (custom)`;
+        return o;
+      }),
+    );
+    this.select.value = this.draft.id;
+    this.nameInput.value = this.draft.name;
+    for (const b of this.tabs.querySelectorAll("button"))
+      b.classList.toggle("on", b.dataset.status === this.tab);
+  }
+
+  // Rebuilt only on discrete edits: a colour picker is tied to its <input>.
+  private renderFields() {
+    const t = this.draft.statuses[this.tab];
+    const color = (label: string, value: number, set: (c: number) => void) => {
+      const input = document.createElement("input");
+      input.type = "color";
+      input.value = toHex(value);
+      input.oninput = () =>
+        this.edit(() => set(parseInt(input.value.slice(1), 16)), true);
+      input.onchange = () => this.onChange(copyTheme(this.draft), true);
+      return this.row(label, input);
+    };
+    const number = (label: string, value: number, set: (n: number) => void) => {
+      const input = document.createElement("input");
+      input.type = "number";
+      input.min = "1";
+      input.value = String(value);
+      input.onchange = () => {
+        const n = Number(input.value);
+        if (n > 0) this.edit(() => set(n));
+      };
+      return this.row(label, input);
+    };
+    const style = document.createElement("select");
+    for (const v of ["solid", "dash"]) style.add(new Option(v, v));
+    style.value = t.ringStyle ?? "solid";
+    style.onchange = () =>
+      this.edit((_, n) => (n.ringStyle = style.value as "solid" | "dash"));
+
+    this.fields.replaceChildren(
+      color(
+        "Core",
+        coreOf(t),
+        (c) => (this.current().stops = gradientStops(c)),
+      ),
+      color("Ring", t.ring, (c) => (this.current().ring = c)),
+      color("Rim", t.rim, (c) => (this.current().rim = c)),
+      color("Glow", t.glow, (c) => (this.current().glow = c)),
+      this.row("Ring style", style),
+      number(
+        "Ring width",
+        t.ringWidth ?? (t.ringStyle === "dash" ? 4 : 8),
+        (n) => (this.current().ringWidth = n),
+      ),
+      ...(t.ringStyle === "dash"
+        ? [
+            number(
+              "Dashes",
+              t.dashCount ?? 24,
+              (n) => (this.current().dashCount = Math.round(n)),
+            ),
+          ]
+        : []),
+    );
+  }
+
+  private current() {
+    return this.draft.statuses[this.tab];
+  }
+
+  // Presets stay as shipped: the first edit works on a custom copy.
+  // `live` edits (picker drags) leave the field rows alone and aren't stored.
+  private edit(fn: (theme: TreeTheme, node: NodeTheme) => void, live = false) {
+    if (isPreset(this.draft.id)) {
+      this.draft = {
+        ...copyTheme(this.draft),
+        id: `custom-${Date.now().toString(36)}`,
+        name: `${this.draft.name} copy`,
+      };
+    }
+    fn(this.draft, this.current());
+    this.commit(this.draft, live);
+  }
+
+  private commit(theme: TreeTheme, live = false) {
+    this.draft = copyTheme(theme);
+    this.onChange(theme, !live);
+    if (!live) return this.render();
+    this.renderHeader();
+    this.drawPreview();
+  }
+
+  /* ───────── files ───────── */
+  private async load() {
+    const file = await new Promise<File | null>((resolve) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = ".json,application/json";
+      input.onchange = () => resolve(input.files?.[0] ?? null);
+      input.oncancel = () => resolve(null);
+      input.click();
+    });
+    if (!file) return;
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch (e) {
+      this.note.textContent = `${file.name}: ${String(e)}`;
+      return;
+    }
+    const { theme, errors } = parseTheme(raw);
+    if (!theme) {
+      this.note.textContent = `${file.name}: ${errors.join("; ")}`;
+      return;
+    }
+    this.note.textContent = `Loaded “${theme.name}”`;
+    this.commit(theme);
+  }
+
+  private save() {
+    const blob = new Blob([JSON.stringify(themeToJSON(this.draft), null, 2)], {
+      type: "application/json",
+    });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = `${this.draft.name.replace(/[^\w-]+/g, "_")}.theme.json`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  /* ───────── preview ───────── */
+  // The three statuses drawn by the real node factory, under the panel.
+  private drawPreview() {
+    for (const c of this.preview.removeChildren())
+      c.destroy({ children: true });
+    const w = PREVIEW_GAP * STATUSES.length;
+    const h = PREVIEW_Y + PREVIEW_R + 40;
+    this.preview.addChild(
+      new Graphics()
+        .roundRect(0, 0, w, h, 6)
+        .fill({ color: 0x000000, alpha: 0.82 })
+        .stroke({ color: 0xffffff, width: 1, alpha: 0.25 }),
+    );
+    STATUSES.forEach((s, i) => {
+      const cx = PREVIEW_GAP * (i + 0.5);
+      this.preview.addChild(
+        makeThemedNode(cx, PREVIEW_Y, PREVIEW_R, this.draft.statuses[s]),
+      );
+      const label = new Text({
+        text: s,
+        style: { fill: 0xffffff, fontFamily: FONT, fontSize: 12 },
+      });
+      label.anchor.set(0.5, 0);
+      label.position.set(cx, PREVIEW_Y + PREVIEW_R + 16);
+      this.preview.addChild(label);
+    });
+    const panel = this.root.getBoundingClientRect();
+    const canvas = this.app.canvas.getBoundingClientRect();
+    this.preview.position.set(
+      Math.round(panel.left - canvas.left),
+      Math.round(panel.bottom - canvas.top + 8),
+    );
+  }
+
+  /* ───────── helpers ───────── */
+  private row(label: string, input: HTMLElement) {
+    const row = document.createElement("div");
+    row.className = "row";
+    const span = document.createElement("span");
+    span.textContent = label;
+    row.append(span, input);
+    return row;
+  }
+
+  private button(label: string, onclick: () => void) {
+    const b = document.createElement("button");
+    b.textContent = label;
+    b.onclick = onclick;
+    return b;
+  }
+}
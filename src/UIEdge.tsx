@@ -1,7 +1,14 @@
 import { Container, Graphics } from "pixi.js";
 import { UINode } from "./UINode";
+import type { EdgeRelation } from "./graph";
 
-export type EdgeKind = "linear" | "curvy";
+/**
+ * linear: straight; curvy: bows to whichever side is clear of other nodes;
+ * arc: bows towards the trunk; circuit: orthogonal, with two corners.
+ */
+export type EdgeKind = "linear" | "curvy" | "arc" | "circuit";
+
+export type EdgeMarker = "none" | "arrow" | "chevrons";
 
 export type EdgeStyle = {
   coreColor: number;
@@ -9,8 +16,14 @@ export type EdgeStyle = {
   shadowColor: number;
   shadowWidth: number;
   alpha: number;
-  nodeRadiusPx: number;
-  bend: number; // curvature strength (px) for curvy
+  bend: number; // curvature strength (px) for curvy / arc
+  marker: EdgeMarker; // direction: arrowhead at the dependent end, or chevrons along
+};
+
+/** What routing needs to know about the rest of the tree. */
+export type EdgeContext = {
+  trunkX: number; // design x of the trunk; arc edges bow towards it
+  obstacles: () => readonly (Pt & { radius: number })[]; // nodes curvy edges steer around
 };
 
 const DEFAULT_STYLE: EdgeStyle = {
@@ -19,9 +32,42 @@ const DEFAULT_STYLE: EdgeStyle = {
   shadowColor: 0x121007, // soft dark outline
   shadowWidth: 7,
   alpha: 0.95,
-  nodeRadiusPx: 26,
   bend: 110,
+  marker: "none",
+};
+
+const HIT_SCREEN_PX = 8; // click tolerance either side of the line, on screen
+const CURVE_SAMPLES = 20;
+const SELECTED_COLOR = 0xfff1c4;
+const AVOID_PX = 16; // curvy edges count nodes whose outline comes closer than this
+const AVOID_SAMPLES = 10;
+const CHEVRON_GAP = 70; // design px between chevrons
+// dash and gap lengths per relation; "requires" is drawn solid
+const DASHES: Record<EdgeRelation, [number, number] | null> = {
+  requires: null,
+  recommended: [16, 10],
+  "any-of": [1, 9], // dots, with round caps
 };
+const RECOMMENDED_ALPHA = 0.7; // recommended edges recede a little
+
+type Pt = { x: number; y: number };
+
+function distToSegment(p: Pt, a: Pt, b: Pt) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len2 = dx * dx + dy * dy || 1;
+  const t = ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2;
+  const k = Math.max(0, Math.min(1, t));
+  return Math.hypot(p.x - (a.x + dx * k), p.y - (a.y + dy * k));
+}
+
+function quadAt(a: Pt, c: Pt, b: Pt, t: number): Pt {
+  const u = 1 - t;
+  return {
+    x: u * u * a.x + 2 * u * t * c.x + t * t * b.x,
+    y: u * u * a.y + 2 * u * t * c.y + t * t * b.y,
+  };
+}
 
 export class UIEdge {
   readonly id: string;
@@ -33,7 +79,17 @@ export class UIEdge {
   readonly container: Container;
   private g: Graphics;
   private style: EdgeStyle;
-  private kind: EdgeKind;
+  private _kind: EdgeKind;
+  private _relation: EdgeRelation;
+  private ctx?: EdgeContext;
+  private selected = false;
+  private ghost = false;
+  // last drawn geometry in design space; ctrl is null for straight edges,
+  // bends holds a circuit route's corners
+  private start: Pt = { x: 0, y: 0 };
+  private ctrl: Pt | null = null;
+  private bends: Pt[] = [];
+  private end: Pt = { x: 0, y: 0 };
 
   constructor(
     from: UINode,
@@ -41,89 +97,332 @@ export class UIEdge {
     kind: EdgeKind = "curvy",
     id?: string,
     style?: Partial<EdgeStyle>,
+    ctx?: EdgeContext,
+    relation: EdgeRelation = "requires",
   ) {
     this.from = from;
     this.to = to;
     this.fromId = from.id;
     this.toId = to.id;
     this.id = id ?? `E_${from.id}_${to.id}`;
-    this.kind = kind;
+    this._kind = kind;
+    this._relation = relation;
     this.style = { ...DEFAULT_STYLE, ...(style || {}) };
+    this.ctx = ctx;
 
     this.container = new Container();
     this.g = new Graphics();
     this.container.addChild(this.g);
 
+    // clicks land anywhere near the drawn line or curve, not its bounding box
+    this.container.eventMode = "static";
+    this.container.cursor = "pointer";
+    this.container.hitArea = { contains: (x, y) => this.hits({ x, y }) };
+
     this.update();
   }
 
   update() {
     const s = this.style;
+    this.route();
 
-    const sx = this.from.x;
-    const sy = this.from.y;
-    const ex = this.to.x;
-    const ey = this.to.y;
-
-    const dx = ex - sx;
-    const dy = ey - sy;
-    const d = Math.hypot(dx, dy) || 1;
-
-    // trim to node edges
-    const nx = dx / d;
-    const ny = dy / d;
-    const startX = sx + nx * s.nodeRadiusPx;
-    const startY = sy + ny * s.nodeRadiusPx;
-    const endX = ex - nx * s.nodeRadiusPx;
-    const endY = ey - ny * s.nodeRadiusPx;
+    const dash = DASHES[this._relation];
+    const path = () => {
+      if (dash) return this.dashed(dash);
+      this.g.moveTo(this.start.x, this.start.y);
+      if (this.ctrl)
+        this.g.quadraticCurveTo(
+          this.ctrl.x,
+          this.ctrl.y,
+          this.end.x,
+          this.end.y,
+        );
+      else {
+        for (const p of this.bends) this.g.lineTo(p.x, p.y);
+        this.g.lineTo(this.end.x, this.end.y);
+      }
+      return this.g;
+    };
 
     this.g.clear();
 
-    if (this.kind === "linear") {
-      // shadow
-      this.g.moveTo(startX, startY).lineTo(endX, endY).stroke({
-        color: s.shadowColor,
-        width: s.shadowWidth,
-        alpha: 0.22,
+    // selection halo
+    if (this.selected) {
+      path().stroke({
+        color: SELECTED_COLOR,
+        width: s.shadowWidth + 6,
+        alpha: 0.45,
         cap: "round",
         join: "round",
       });
-      // core
-      this.g.moveTo(startX, startY).lineTo(endX, endY).stroke({
-        color: s.coreColor,
-        width: s.coreWidth,
-        alpha: s.alpha,
-        cap: "round",
-        join: "round",
-      });
-    } else {
-      // control point: midpoint + perpendicular offset
-      const mx = (startX + endX) * 0.5;
-      const my = (startY + endY) * 0.5;
-      const px = -ny; // perp
-      const py = nx;
-      const bend = Math.min(s.bend, d * 0.5);
-      const cx = mx + px * bend;
-      const cy = my + py * bend;
-
+    }
+    const color = this.selected ? SELECTED_COLOR : s.coreColor;
+    const alpha =
+      this._relation === "recommended" ? s.alpha * RECOMMENDED_ALPHA : s.alpha;
+    // ghosts keep their markers: flow tubes don't show which way they run
+    if (!this.ghost) {
       // shadow
-      this.g.moveTo(startX, startY).quadraticCurveTo(cx, cy, endX, endY).stroke({
+      path().stroke({
         color: s.shadowColor,
         width: s.shadowWidth,
         alpha: 0.22,
         cap: "round",
         join: "round",
       });
-
       // core
-      this.g.moveTo(startX, startY).quadraticCurveTo(cx, cy, endX, endY).stroke({
-        color: s.coreColor,
+      path().stroke({
+        color,
         width: s.coreWidth,
-        alpha: s.alpha,
+        alpha,
         cap: "round",
         join: "round",
       });
     }
+    this.drawMarkers(color);
+  }
+
+  // Dash segments along the drawn path, carrying the pattern across corners.
+  private dashed([on, off]: [number, number]) {
+    const pts = this.polyline();
+    let phase = 0; // distance into the current on+off period
+    for (let i = 1; i < pts.length; i++) {
+      const a = pts[i - 1];
+      const b = pts[i];
+      const seg = Math.hypot(b.x - a.x, b.y - a.y);
+      let d = 0;
+      while (d < seg) {
+        const drawing = phase < on;
+        const step = Math.min(seg - d, drawing ? on - phase : on + off - phase);
+        if (drawing) {
+          const k0 = d / seg;
+          const k1 = (d + step) / seg;
+          this.g
+            .moveTo(a.x + (b.x - a.x) * k0, a.y + (b.y - a.y) * k0)
+            .lineTo(a.x + (b.x - a.x) * k1, a.y + (b.y - a.y) * k1);
+        }
+        d += step;
+        phase = (phase + step) % (on + off);
+      }
+    }
+    return this.g;
+  }
+
+  // Trimmed endpoints plus the control point or corners for this kind.
+  private route() {
+    const s = this.style;
+    const a = { x: this.from.x, y: this.from.y };
+    const b = { x: this.to.x, y: this.to.y };
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const d = Math.hypot(dx, dy) || 1;
+    this.ctrl = null;
+    this.bends = [];
+
+    if (this._kind === "circuit") {
+      // leave and enter along the dominant axis, turn twice halfway
+      if (Math.abs(dy) >= Math.abs(dx)) {
+        const sy = Math.sign(dy) || 1;
+        this.start = { x: a.x, y: a.y + sy * this.from.extentToward(0, sy) };
+        this.end = { x: b.x, y: b.y - sy * this.to.extentToward(0, -sy) };
+        const my = (this.start.y + this.end.y) / 2;
+        if (a.x !== b.x)
+          this.bends = [
+            { x: a.x, y: my },
+            { x: b.x, y: my },
+          ];
+      } else {
+        const sx = Math.sign(dx);
+        this.start = { x: a.x + sx * this.from.extentToward(sx, 0), y: a.y };
+        this.end = { x: b.x - sx * this.to.extentToward(-sx, 0), y: b.y };
+        const mx = (this.start.x + this.end.x) / 2;
+        if (a.y !== b.y)
+          this.bends = [
+            { x: mx, y: a.y },
+            { x: mx, y: b.y },
+          ];
+      }
+      return;
+    }
+
+    // trim to each node's outline, whatever its size and shape
+    const nx = dx / d;
+    const ny = dy / d;
+    const r0 = this.from.extentToward(dx, dy);
+    const r1 = this.to.extentToward(-dx, -dy);
+    this.start = { x: a.x + nx * r0, y: a.y + ny * r0 };
+    this.end = { x: b.x - nx * r1, y: b.y - ny * r1 };
+    if (this._kind === "linear") return;
+
+    // control point: midpoint + perpendicular offset, to one side or the other
+    const mx = (this.start.x + this.end.x) * 0.5;
+    const my = (this.start.y + this.end.y) * 0.5;
+    const px = -ny; // perp
+    const py = nx;
+    const bend = Math.min(s.bend, d * 0.5);
+    const ctrlOn = (side: number) => ({
+      x: mx + px * bend * side,
+      y: my + py * bend * side,
+    });
+    let side = 1;
+    if (this._kind === "arc" && this.ctx)
+      side = Math.sign((this.ctx.trunkX - mx) * px) || 1;
+    else if (this._kind === "curvy" && this.ctx)
+      side = this.crowding(ctrlOn(-1)) < this.crowding(ctrlOn(1)) ? -1 : 1;
+    this.ctrl = ctrlOn(side);
+  }
+
+  // How close other nodes come to the curve through `c`; 0 when clear.
+  private crowding(c: Pt): number {
+    const pts = Array.from({ length: AVOID_SAMPLES - 1 }, (_, i) =>
+      quadAt(this.start, c, this.end, (i + 1) / AVOID_SAMPLES),
+    );
+    let sum = 0;
+    for (const o of this.ctx!.obstacles()) {
+      if (o === this.from || o === this.to) continue;
+      for (const p of pts) {
+        const gap = Math.hypot(p.x - o.x, p.y - o.y) - o.radius;
+        if (gap < AVOID_PX) sum += AVOID_PX - gap;
+      }
+    }
+    return sum;
+  }
+
+  private drawMarkers(color: number) {
+    const s = this.style;
+    if (s.marker === "none") return;
+    const size = s.coreWidth * 2 + 6;
+    if (s.marker === "arrow") {
+      const tip = this.end;
+      const { x: ux, y: uy } = this.directionAt(1);
+      const bx = tip.x - ux * size * 1.6;
+      const by = tip.y - uy * size * 1.6;
+      this.g
+        .moveTo(tip.x, tip.y)
+        .lineTo(bx - uy * size, by + ux * size)
+        .lineTo(bx + uy * size, by - ux * size)
+        .closePath()
+        .fill({ color, alpha: s.alpha })
+        .stroke({ color: s.shadowColor, width: 1.5, alpha: 0.5 });
+      return;
+    }
+    const len = this.length();
+    const count = Math.max(1, Math.floor(len / CHEVRON_GAP));
+    for (let i = 0; i < count; i++) {
+      const t = (i + 0.5) / count;
+      const p = this.pointAt(t);
+      const { x: ux, y: uy } = this.directionAt(t);
+      const bx = p.x - ux * size;
+      const by = p.y - uy * size;
+      this.g
+        .moveTo(bx - uy * size, by + ux * size)
+        .lineTo(p.x, p.y)
+        .lineTo(bx + uy * size, by - ux * size)
+        .stroke({
+          color,
+          width: s.coreWidth,
+          alpha: s.alpha,
+          cap: "round",
+          join: "round",
+        });
+    }
+  }
+
+  get kind(): EdgeKind {
+    return this._kind;
+  }
+
+  get relation(): EdgeRelation {
+    return this._relation;
+  }
+
+  get marker(): EdgeMarker {
+    return this.style.marker;
+  }
+
+  setSelected(on: boolean) {
+    if (this.selected === on) return;
+    this.selected = on;
+    this.update();
+  }
+
+  /** Ghost edges draw only their selection halo and markers but stay clickable. */
+  setGhost(on: boolean) {
+    if (this.ghost === on) return;
+    this.ghost = on;
+    this.update();
+  }
+
+  /**
+   * Trimmed endpoints, control point (null unless curved) and corners of a
+   * circuit route, in design space.
+   */
+  geometry(): { start: Pt; ctrl: Pt | null; bends: Pt[]; end: Pt } {
+    const { start, ctrl, bends, end } = this;
+    return { start, ctrl, bends, end };
+  }
+
+  /** Point halfway along the drawn line or curve (design space). */
+  midpoint(): Pt {
+    return this.pointAt(0.5);
+  }
+
+  /** Point at `t` (0..1) along the drawn line or curve; by length on circuits. */
+  pointAt(t: number): Pt {
+    const a = this.start;
+    const b = this.end;
+    const c = this.ctrl;
+    if (c) return quadAt(a, c, b, t);
+    const pts = this.corners();
+    let left = t * this.length();
+    for (let i = 1; i < pts.length; i++) {
+      const p = pts[i - 1];
+      const q = pts[i];
+      const seg = Math.hypot(q.x - p.x, q.y - p.y);
+      if (left <= seg || i === pts.length - 1) {
+        const k = seg ? Math.min(1, left / seg) : 0;
+        return { x: p.x + (q.x - p.x) * k, y: p.y + (q.y - p.y) * k };
+      }
+      left -= seg;
+    }
+    return { ...a };
+  }
+
+  private corners(): Pt[] {
+    return [this.start, ...this.bends, this.end];
+  }
+
+  // The drawn path as line segments; curves are sampled.
+  private polyline(): Pt[] {
+    if (!this.ctrl) return this.corners();
+    return Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) =>
+      this.pointAt(i / CURVE_SAMPLES),
+    );
+  }
+
+  private length(): number {
+    const pts = this.polyline();
+    let len = 0;
+    for (let i = 1; i < pts.length; i++)
+      len += Math.hypot(pts[i].x - pts[i - 1].x, pts[i].y - pts[i - 1].y);
+    return len;
+  }
+
+  // Unit direction of travel (towards the dependent node) at `t`.
+  private directionAt(t: number): Pt {
+    const p = this.pointAt(Math.max(0, t - 0.01));
+    const q = this.pointAt(Math.min(1, t + 0.01));
+    const d = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    return { x: (q.x - p.x) / d, y: (q.y - p.y) / d };
+  }
+
+  // Tolerance is fixed in screen px so edges stay clickable when zoomed out.
+  private hits(p: Pt): boolean {
+    const zoom = this.container.worldTransform.a || 1;
+    const tol = Math.max(this.style.shadowWidth / 2, HIT_SCREEN_PX / zoom);
+    const pts = this.polyline();
+    for (let i = 1; i < pts.length; i++)
+      if (distToSegment(p, pts[i - 1], pts[i]) <= tol) return true;
+    return false;
   }
 
   destroy() {
@@ -7,22 +7,37 @@ import {
   Text,
   Texture,
   Sprite,
+  type DestroyOptions,
+  type FederatedPointerEvent,
 } from "pixi.js";
-import { makeThemedNode } from "./node_drawer";
-import { NodeStatus, statusToTheme } from "./nodeTypes";
+import {
+  addCoreIcon,
+  makeThemedNode,
+  nodeOuterRadius,
+  shapeExtent,
+} from "./node_drawer";
+import { iconTexture } from "./icons";
+import {
+  ARCHETYPES,
+  DEFAULT_ARCHETYPE,
+  NodeStatus,
+  difficultyToLevel,
+  isArchetype,
+  statusToTheme,
+  type NodeArchetype,
+  type NodeState,
+  type Objective,
+} from "./nodeTypes";
+import { nodeStateKey, readJSON, writeJSON } from "./storage";
 
 /* ───────────────────────── Types & constants ───────────────────────── */
-type Objective = { id: string; text: string; done: boolean };
-
-
-const NODE_STORE_PREFIX = "tol.node.v1.";
-const NODE_LIST_KEY = "tol_nodes_v1";
 
 const LEVEL_ICON_BASE = "/assets/ui/level_"; // + 1..5 + "_icon.png"
 
 const PAD = 8;
 const RADIUS = 6;
 const LIST_WIDTH = 280;
+const SELECTED_RING = 0xfff1c4;
 
 const LINE_STYLE = {
   fill: 0xf1f1f1,
@@ -35,6 +50,18 @@ const LINE_STYLE = {
   align: "left" as const,
 };
 
+// objective rows: [grip][checkbox] text ………… [×]
+const GRIP_W = 14;
+const TEXT_X = GRIP_W + 18;
+const DELETE_W = 16;
+
+const ADD_STYLE = {
+  ...LINE_STYLE,
+  fill: 0x9fd9ff,
+  fontStyle: "italic" as const,
+};
+const DELETE_STYLE = { ...LINE_STYLE, fill: 0xff8a8a, wordWrap: false };
+
 const log = (...a: any[]) =>
   console.log(`[UINode ${new Date().toLocaleTimeString()}]`, ...a);
 
@@ -52,14 +79,6 @@ async function getLevelIconTextures(): Promise<Texture[]> {
   return _levelIconTex!;
 }
 
-function difficultyToLevel(d: number): number {
-  const v = Math.max(0, Math.min(33, Math.round(d)));
-  if (v <= 6) return 1;
-  if (v <= 14) return 2;
-  if (v <= 21) return 3;
-  if (v <= 27) return 4;
-  return 5;
-}
 function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }
 function lerpColor(c1: number, c2: number, t: number) {
   const r1 = (c1 >> 16) & 255, g1 = (c1 >> 8) & 255, b1 = c1 & 255;
@@ -126,6 +145,22 @@ async function buildHeaderRow(
   return row;
 }
 
+/** Objective edits made in the panel; the node applies and records them. */
+type ObjectiveEdits = {
+  add: (text: string) => void;
+  rename: (id: string, text: string) => void;
+  remove: (id: string) => void;
+  move: (id: string, toIndex: number) => void;
+};
+
+/** Adjusts a dragged node's design position; `free` means leave it as is. */
+type SnapFn = (
+  id: string,
+  x: number,
+  y: number,
+  free: boolean,
+) => { x: number; y: number };
+
 class BubblePanel extends Container {
   private bg = new Graphics();
   private header = new Container();
@@ -140,8 +175,25 @@ class BubblePanel extends Container {
   private objectives: Objective[];
   private onToggle: (id: string) => void;
   private onClose: () => void;
+  private onEdit?: () => void;
+  private edits?: ObjectiveEdits;
+  private canvas?: HTMLCanvasElement;
+  private rows: { row: Container; id: string; y: number; h: number }[] = [];
+  private contentW = LIST_WIDTH;
+  private editor?: { input: HTMLInputElement; anchor: Text };
+  private editPatch = new Graphics();
+  private editText = new Text({
+    text: "Edit",
+    style: {
+      fill: 0xffffff,
+      fontFamily: "Tahoma, Segoe UI, Noto Sans, system-ui, sans-serif",
+      fontSize: 12,
+      fontWeight: "600",
+    },
+  });
   private difficulty: number;
-  private fixedInnerW?: number;
+  /** Resolves once the first layout is done (header icons load async). */
+  readonly ready: Promise<void>;
 
   constructor(args: {
     title: string;
@@ -149,12 +201,19 @@ class BubblePanel extends Container {
     objectives: Objective[];
     onToggle: (id: string) => void;
     onClose: () => void;
+    onEdit?: () => void;
+    // add / rename / delete / reorder; the HTML editor needs the canvas
+    edits?: ObjectiveEdits;
+    canvas?: HTMLCanvasElement;
   }) {
     super();
     this.title = args.title;
     this.objectives = args.objectives;
     this.onToggle = args.onToggle;
     this.onClose = args.onClose;
+    this.onEdit = args.onEdit;
+    this.edits = args.edits;
+    this.canvas = args.canvas;
     this.difficulty = args.difficulty;
 
     this.sortableChildren = true;
@@ -167,8 +226,16 @@ class BubblePanel extends Container {
     (this.okText as any).eventMode = "static";
     (this.okText as any).cursor = "pointer";
     (this.okText as any).on?.("pointertap", () => this.onClose());
+    if (this.onEdit) {
+      this.addChild(this.editPatch, this.editText);
+      for (const c of [this.editPatch, this.editText]) {
+        c.eventMode = "static";
+        c.cursor = "pointer";
+        c.on("pointertap", () => this.onEdit?.());
+      }
+    }
 
-    void this.build();
+    this.ready = this.build();
   }
   
   private makeCheckbox(done: boolean) {
@@ -185,33 +252,76 @@ class BubblePanel extends Container {
     return g;
   }
 
+  private makeGrip() {
+    const g = new Graphics();
+    for (let r = 0; r < 3; r++)
+      for (let c = 0; c < 2; c++) g.circle(3 + c * 5, 3 + r * 5, 1.3);
+    g.fill({ color: 0xffffff, alpha: 0.45 });
+    g.rect(0, 0, GRIP_W - 2, 14).fill({ color: 0xffffff, alpha: 0.001 }); // grab area
+    g.eventMode = "static";
+    g.cursor = "grab";
+    return g;
+  }
+
   private async build() {
-    this.header.removeChildren();
     const headerRow = await buildHeaderRow(this.title, this.difficulty, { align: "center", iconPx: 20 });
+    if (this.destroyed) return;
+    this.header.removeChildren();
     this.header.addChild(headerRow);
 
     this.list.removeChildren();
+    this.rows = [];
     let y = headerRow.height + 10;
     let maxRow = LIST_WIDTH;
+    const deletes: Text[] = [];
+    const editable = this.edits != null;
 
-    for (const obj of this.objectives) {
+    this.objectives.forEach((obj, index) => {
       const row = new Container();
       const box = this.makeCheckbox(obj.done);
+      box.position.set(editable ? GRIP_W : 0, 0);
       row.addChild(box);
       const t = new Text({ text: obj.text, style: LINE_STYLE });
-      t.position.set(18, -2);
+      t.position.set(editable ? TEXT_X : 18, -2);
       row.addChild(t);
       (box as any).on?.("pointertap", () => this.onToggle(obj.id));
+
+      if (editable) {
+        const grip = this.makeGrip();
+        grip.on("pointerdown", (e) => this.startReorder(e, index));
+        const del = new Text({ text: "×", style: DELETE_STYLE });
+        del.eventMode = "static";
+        del.cursor = "pointer";
+        del.on("pointertap", () => this.edits?.remove(obj.id));
+        t.eventMode = "static";
+        t.cursor = "text";
+        t.on("pointertap", () => this.startEditing(obj.id, t));
+        row.addChild(grip, del);
+        deletes.push(del);
+      }
+
       row.position.set(PAD, PAD + y);
       this.list.addChild(row);
-      y += Math.max(16, t.height) + 6;
-      maxRow = Math.max(maxRow, 18 + t.width);
-    }
+      const h = Math.max(16, t.height) + 6;
+      this.rows.push({ row, id: obj.id, y: PAD + y, h });
+      y += h;
+      maxRow = Math.max(maxRow, t.x + t.width + (editable ? DELETE_W : 0));
+    });
 
-    const measuredInnerW = Math.max(headerRow.width, Math.max(LIST_WIDTH, maxRow));
-    if (this.fixedInnerW == null) this.fixedInnerW = measuredInnerW;
+    if (editable) {
+      const add = new Text({ text: "+ Add objective", style: ADD_STYLE });
+      add.eventMode = "static";
+      add.cursor = "pointer";
+      add.on("pointertap", () => this.startEditing(null, add));
+      add.position.set(PAD + TEXT_X, PAD + y - 2);
+      this.list.addChild(add);
+      y += Math.max(16, add.height) + 6;
+    }
 
-    const contentW = this.fixedInnerW;
+    // width follows the content, so adding or rewording lines resizes it
+    const contentW = Math.max(headerRow.width, maxRow);
+    this.contentW = contentW;
+    for (const del of deletes) del.position.set(contentW - DELETE_W + 6, -2);
     const contentH = Math.max(headerRow.height, 14) + 10 + y;
     const totalW = contentW + PAD * 2;
     const totalH = contentH + PAD * 2 + 30;
@@ -223,18 +333,26 @@ class BubblePanel extends Container {
       .fill({ color: 0x000000, alpha: 0.72 })
       .stroke({ color: 0xffffff, width: 1, alpha: 0.25 });
 
-    const bw = 62, bh = 22;
-    const bx = Math.round((totalW - bw) / 2);
+    // OK centred; with Edit, the pair is centred instead
+    const bw = 62,
+      bh = 22,
+      gap = 10;
+    const rowW = this.onEdit ? bw * 2 + gap : bw;
+    const ex = Math.round((totalW - rowW) / 2);
+    const bx = this.onEdit ? ex + bw + gap : ex;
     const by = Math.round(totalH - PAD - bh);
-    this.okPatch
-      .clear()
-      .roundRect(bx, by, bw, bh, 6)
-      .fill({ color: 0xffffff, alpha: 0.12 })
-      .stroke({ color: 0xffffff, width: 1, alpha: 0.35 });
-    this.okText.position.set(
-      Math.round(bx + (bw - this.okText.width) / 2),
-      Math.round(by + (bh - this.okText.height) / 2 + 0.5),
-    );
+    const drawButton = (g: Graphics, t: Text, x: number) => {
+      g.clear()
+        .roundRect(x, by, bw, bh, 6)
+        .fill({ color: 0xffffff, alpha: 0.12 })
+        .stroke({ color: 0xffffff, width: 1, alpha: 0.35 });
+      t.position.set(
+        Math.round(x + (bw - t.width) / 2),
+        Math.round(by + (bh - t.height) / 2 + 0.5),
+      );
+    };
+    drawButton(this.okPatch, this.okText, bx);
+    if (this.onEdit) drawButton(this.editPatch, this.editText, ex);
   }
   public dispose() {
     // remove tooltip & panel if they exist
@@ -247,7 +365,118 @@ class BubblePanel extends Container {
   }
   public setObjectives(objs: Objective[]) {
     this.objectives = objs;
-    void this.build();
+    return this.build();
+  }
+
+  /* ───────── inline text editor ───────── */
+  // `id` null adds a new objective; Enter or leaving the field commits.
+  private startEditing(id: string | null, anchor: Text) {
+    if (!this.canvas) return;
+    this.closeEditor();
+    const original = id
+      ? (this.objectives.find((o) => o.id === id)?.text ?? "")
+      : "";
+
+    const input = document.createElement("input");
+    input.type = "text";
+    input.value = original;
+    input.placeholder = "New objective";
+    Object.assign(input.style, {
+      position: "absolute",
+      zIndex: "20",
+      boxSizing: "border-box",
+      height: "22px",
+      padding: "0 4px",
+      font: "13px Tahoma, Segoe UI, Noto Sans, system-ui, sans-serif",
+      color: "#fff",
+      background: "rgba(0,0,0,0.85)",
+      border: "1px solid rgba(255,255,255,0.35)",
+      borderRadius: "4px",
+      outline: "none",
+    } as CSSStyleDeclaration);
+    document.body.appendChild(input);
+    this.editor = { input, anchor };
+    this.placeEditor();
+    input.focus();
+    input.select();
+
+    let finished = false;
+    const finish = (commit: boolean) => {
+      if (finished) return;
+      finished = true;
+      const text = input.value.trim();
+      this.closeEditor();
+      if (!commit || !text || text === original) return;
+      if (id == null) this.edits?.add(text);
+      else this.edits?.rename(id, text);
+    };
+    input.addEventListener("keydown", (e) => {
+      e.stopPropagation(); // keep typing out of the global shortcuts
+      if (e.key === "Enter") finish(true);
+      else if (e.key === "Escape") finish(false);
+    });
+    input.addEventListener("blur", () => finish(true));
+  }
+
+  /** Keeps the HTML editor over its row when the panel moves. */
+  public placeEditor() {
+    if (!this.editor || !this.canvas) return;
+    const { input, anchor } = this.editor;
+    const r = this.canvas.getBoundingClientRect();
+    const p = anchor.getGlobalPosition();
+    const left = this.toGlobal({ x: PAD + TEXT_X, y: 0 }).x;
+    const right = this.toGlobal({ x: PAD + this.contentW - DELETE_W, y: 0 }).x;
+    input.style.left = `${Math.round(r.left + left - 4)}px`;
+    input.style.top = `${Math.round(r.top + p.y - 1)}px`;
+    input.style.width = `${Math.round(right - left + 4)}px`;
+  }
+
+  private closeEditor() {
+    const input = this.editor?.input;
+    this.editor = undefined;
+    input?.remove();
+  }
+
+  /* ───────── drag to reorder ───────── */
+  private startReorder(e: FederatedPointerEvent, index: number) {
+    e.stopPropagation();
+    const entry = this.rows[index];
+    const canvas = this.canvas;
+    if (!entry || !canvas) return;
+    this.closeEditor();
+
+    const startY = this.toLocal(e.global).y;
+    const originY = entry.row.y;
+    this.list.sortableChildren = true;
+    entry.row.zIndex = 1;
+    entry.row.alpha = 0.75;
+
+    const move = (ev: PointerEvent) => {
+      const r = canvas.getBoundingClientRect();
+      const y = this.toLocal({ x: 0, y: ev.clientY - r.top }).y;
+      entry.row.y = originY + (y - startY);
+    };
+    const up = () => {
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", up);
+      if (this.destroyed) return;
+      // new index = rows whose middle is above the dragged row's middle
+      const mid = entry.row.y + entry.h / 2;
+      const to = this.rows.filter(
+        (r) => r !== entry && r.y + r.h / 2 < mid,
+      ).length;
+      entry.row.alpha = 1;
+      entry.row.zIndex = 0;
+      entry.row.y = originY;
+      if (to !== index) this.edits?.move(entry.id, to);
+    };
+    window.addEventListener("pointermove", move, { passive: true });
+    window.addEventListener("pointerup", up, { passive: true });
+  }
+
+  override destroy(options?: DestroyOptions) {
+    this.closeEditor();
+    super.destroy(options);
   }
 }
 
@@ -273,9 +502,14 @@ export class UINode {
   neighbours: UINode[] = [];
 
   private _visual: Container;
+  private ring = new Graphics();
+  private selected = false;
+  private pinned = false;
   private objectives: Objective[] = [];
   private title = "";
   private difficulty = 0;
+  private archetype: NodeArchetype = DEFAULT_ARCHETYPE;
+  private icon: string | null = null; // id in the icon store
 
   private app?: Application;
   private tree?: Container;
@@ -292,7 +526,21 @@ export class UINode {
 
   private onMoveCb?: (id: string, x: number, y: number) => void;
   private onDropCb?: (id: string, x: number, y: number) => void;
-  private onClickCb?: (id: string) => boolean | void; // NEW: allow main to consume taps
+  // NEW: allow main to consume taps
+  private onClickCb?: (
+    id: string,
+    mods: { shiftKey: boolean },
+  ) => boolean | void;
+  private onStatusChangeCb?: (id: string, status: NodeStatus) => void;
+  private onEditCb?: (id: string) => void;
+  private onChangeCb?: (id: string) => void;
+  private snapCb?: SnapFn;
+  private prereqLinesCb?: (id: string) => string[];
+  private transact: (label: string, fn: () => void) => void = (_, fn) => fn();
+
+  // Set by main from the edge graph; false pins the node to Locked.
+  private prereqsMet = true;
+  private stateReadable = true;
 
   constructor(x: number, y: number, status: NodeStatus, id?: string) {
     this.id = id ?? defaultNodeId(x, y);
@@ -301,20 +549,26 @@ export class UINode {
     this.status = status;
 
     this.container = new Container();
-    this._visual = makeThemedNode(x, y, 48, statusToTheme[this.status]);
-    this.container.addChild(this._visual);
+    this._visual = makeThemedNode(
+      x,
+      y,
+      this.look.radius,
+      statusToTheme[this.status],
+      this.look,
+    );
+    this.container.addChild(this._visual, this.ring);
 
     this.loadState();
 
     (this.container as any).eventMode = "static";
     (this.container as any).cursor = "pointer";
 
-    (this.container as any).on?.("pointertap", () => {
+    (this.container as any).on?.("pointertap", (ev: FederatedPointerEvent) => {
       if (this.dragging) return;
       if (performance.now() < this.suppressTapUntil) return;
 
-      // If main consumes the click (edge mode), don't open the panel.
-      const consumed = this.onClickCb?.(this.id);
+      // If main consumes the click (edge mode, shift-select), don't open the panel.
+      const consumed = this.onClickCb?.(this.id, { shiftKey: ev.shiftKey });
       if (consumed) return;
 
       this.openPanel();
@@ -332,7 +586,14 @@ export class UINode {
     opts?: {
       onMove?: (id: string, x: number, y: number) => void;
       onDrop?: (id: string, x: number, y: number) => void;
-      onClick?: (id: string) => boolean | void; // NEW
+      onClick?: (id: string, mods: { shiftKey: boolean }) => boolean | void; // NEW
+      onStatusChange?: (id: string, status: NodeStatus) => void;
+      onEdit?: (id: string) => void; // "Edit" button in the panel
+      onChange?: (id: string) => void; // saved state written (objectives, title…)
+      snap?: SnapFn; // grid / guide snapping, skipped while Alt is held
+      prereqLines?: (id: string) => string[]; // tooltip lines under the title
+      // wraps every edit so main can record it for undo/redo
+      transact?: (label: string, fn: () => void) => void;
     },
   ) {
     this.app = app;
@@ -341,64 +602,130 @@ export class UINode {
     this.onMoveCb = opts?.onMove;
     this.onDropCb = opts?.onDrop;
     this.onClickCb = opts?.onClick;
+    this.onStatusChangeCb = opts?.onStatusChange;
+    this.onEditCb = opts?.onEdit;
+    this.onChangeCb = opts?.onChange;
+    this.snapCb = opts?.snap;
+    this.prereqLinesCb = opts?.prereqLines;
+    if (opts?.transact) this.transact = opts.transact;
 
     (this.container as any).on?.("pointerover", () => this.showTooltip());
     (this.container as any).on?.("pointerout", () => this.hideTooltip());
   }
 
-  private key() { return `${NODE_STORE_PREFIX}${this.id}`; }
+  private key() { return nodeStateKey(this.id); }
 
   private loadState() {
-    try {
-      const raw = localStorage.getItem(this.key());
-      if (!raw) return;
-      const data = JSON.parse(raw) as {
-        status?: NodeStatus;
-        objectives?: Objective[];
-        title?: string;
-        difficulty?: number;
-      };
-      if (data.status !== undefined) this.status = data.status;
-      if (Array.isArray(data.objectives)) this.objectives = data.objectives;
-      if (typeof data.title === "string") this.title = data.title;
-      if (typeof data.difficulty === "number") this.difficulty = data.difficulty;
-      this.refreshVisual();
-    } catch {}
+    const r = readJSON<NodeState>(this.key());
+    if (!r.ok) {
+      // keep the unreadable value on disk instead of saving over it
+      this.stateReadable = false;
+      log("unreadable node state, not saving", r.error);
+      return;
+    }
+    const data = r.value;
+    if (!data) return;
+    if (data.status !== undefined) this.status = data.status;
+    if (Array.isArray(data.objectives)) this.objectives = data.objectives;
+    if (typeof data.title === "string") this.title = data.title;
+    if (typeof data.difficulty === "number") this.difficulty = data.difficulty;
+    if (isArchetype(data.archetype)) this.archetype = data.archetype;
+    if (typeof data.icon === "string") this.icon = data.icon;
+    this.refreshVisual();
   }
 
   private saveState() {
-    localStorage.setItem(this.key(), JSON.stringify({
+    if (!this.stateReadable) return;
+    writeJSON(this.key(), {
       status: this.status,
       objectives: this.objectives,
       title: this.title,
       difficulty: this.difficulty,
-    }));
+      archetype: this.archetype,
+      ...(this.icon ? { icon: this.icon } : {}),
+    });
+    this.onChangeCb?.(this.id);
   }
 
-  private persistXY() {
-    try {
-      const raw = localStorage.getItem(NODE_LIST_KEY);
-      if (!raw) return;
-      const list = JSON.parse(raw) as Array<{ id: string; x: number; y: number; status: number }>;
-      const row = list.find(r => r.id === this.id);
-      if (row) {
-        row.x = this.x; row.y = this.y;
-        localStorage.setItem(NODE_LIST_KEY, JSON.stringify(list));
-      }
-    } catch {}
+  /** Ticked and total objectives, for the progress dashboard. */
+  public get progress() {
+    const done = this.objectives.filter((o) => o.done).length;
+    return { done, total: this.objectives.length };
   }
 
-  public applyMeta(meta: { title?: string; difficulty?: number; objectives?: string[] }) {
+  /** What the edit dialog is prefilled with. */
+  public get meta() {
+    return {
+      title: this.title,
+      difficulty: this.difficulty,
+      archetype: this.archetype,
+      objectives: this.objectives.map((o) => o.text),
+    };
+  }
+
+  /** Id of the node's icon in the icon store, if it has one. */
+  public get iconId() {
+    return this.icon;
+  }
+
+  /** Shows a stored icon inside the core; null goes back to the plain orb. */
+  public setIcon(id: string | null) {
+    if (id === this.icon) return;
+    this.icon = id;
+    this.saveState();
+    this.refreshVisual();
+  }
+
+  private get look() {
+    return ARCHETYPES[this.archetype];
+  }
+
+  /** Design px from the centre to the outside of the drawn node. */
+  public get radius() {
+    return nodeOuterRadius(this.look.radius, this.look);
+  }
+
+  /** Design px from the centre to the node's outline along (dx, dy); edges end there. */
+  public extentToward(dx: number, dy: number) {
+    return shapeExtent(this.look.shape, this.radius, Math.atan2(dy, dx));
+  }
+
+  /**
+   * Objectives whose text is unchanged keep their id and done flag (matched
+   * in order, so duplicates pair up one to one); new lines start undone.
+   */
+  public applyMeta(meta: {
+    title?: string;
+    difficulty?: number;
+    archetype?: NodeArchetype;
+    objectives?: string[];
+  }) {
     if (meta.title) this.title = meta.title;
+    if (meta.archetype && meta.archetype !== this.archetype) {
+      this.archetype = meta.archetype;
+      this.refreshVisual();
+    }
     if (typeof meta.difficulty === "number")
       this.difficulty = Math.max(0, Math.min(33, Math.round(meta.difficulty)));
     if (meta.objectives) {
+      const previous = this.objectives.slice();
       this.objectives = meta.objectives
         .map((t) => t.trim())
         .filter(Boolean)
-        .map((t) => ({ id: Math.random().toString(36).slice(2), text: t, done: false }));
+        .map((t) => {
+          const i = previous.findIndex((o) => o.text === t);
+          if (i >= 0) return previous.splice(i, 1)[0];
+          return {
+            id: Math.random().toString(36).slice(2),
+            text: t,
+            done: false,
+          };
+        });
     }
     this.saveState();
+    if (this.recomputeStatusFromObjectives())
+      this.onStatusChangeCb?.(this.id, this.status);
+    if (this.panel) void this.openPanel();
   }
 
   private refreshVisual() {
@@ -407,21 +734,99 @@ export class UINode {
       // @ts-ignore
       (this._visual as any).destroy?.({ children: true });
     } catch {}
-    this._visual = makeThemedNode(this.x, this.y, 48, statusToTheme[this.status]);
-    this.container.addChild(this._visual);
+    this._visual = makeThemedNode(this.x, this.y, this.look.radius, statusToTheme[this.status], this.look);
+    this.container.addChildAt(this._visual, 0);
+    this.drawMarks();
+    if (this.icon) void this.drawIcon(this._visual, this.icon);
   }
 
-  private recomputeStatusFromObjectives() {
-    if (this.objectives.length > 0 && this.objectives.every((o) => o.done)) {
-      if (this.status !== NodeStatus.Learned) {
-        this.status = NodeStatus.Learned;
-        this.refreshVisual();
-      }
-    } else if (this.status === NodeStatus.Locked) {
-      this.status = NodeStatus.Available;
-      this.refreshVisual();
-    }
+  // Textures load async; skip if the node was redrawn or the icon changed meanwhile.
+  private async drawIcon(visual: Container, id: string) {
+    const tex = await iconTexture(id);
+    if (!tex || visual !== this._visual || visual.destroyed || id !== this.icon)
+      return;
+    addCoreIcon(visual, tex, this.look.radius, this.look);
+  }
+
+  /** Redraws the node with the current `statusToTheme`, after a theme switch. */
+  public restyle() {
+    this.refreshVisual();
+  }
+
+  // Moves the existing visual (and its filters) instead of rebuilding it.
+  private place() {
+    this._visual.position.set(this.x, this.y);
+    this.drawMarks();
+  }
+
+  // selection ring and pin badge, drawn over the themed visual
+  private drawMarks() {
+    this.ring.clear();
+    if (this.selected)
+      this.ring
+        .circle(this.x, this.y, this.radius + 8)
+        .stroke({ color: SELECTED_RING, width: 5, alpha: 0.9 });
+    if (this.pinned)
+      this.ring
+        .circle(this.x + this.look.radius * 0.75, this.y - this.look.radius * 0.75, 8)
+        .fill({ color: SELECTED_RING })
+        .stroke({ color: 0x000000, width: 2, alpha: 0.7 });
+  }
+
+  /** Multi-selection highlight, owned by main. */
+  public setSelected(on: boolean) {
+    if (this.selected === on) return;
+    this.selected = on;
+    this.drawMarks();
+  }
+
+  /** Pinned nodes are skipped by auto layout; the flag itself lives in the node list. */
+  public setPinned(on: boolean) {
+    if (this.pinned === on) return;
+    this.pinned = on;
+    this.drawMarks();
+  }
+
+  /** Moves without saving; used for the other members of a group drag. */
+  public moveTo(x: number, y: number) {
+    this.x = x;
+    this.y = y;
+    this.place();
+  }
+
+  /** Group "mark learned" / "reset progress". Returns true if the status changed. */
+  public setAllObjectivesDone(done: boolean): boolean {
+    if (this.objectives.every((o) => o.done === done)) return false;
+    for (const o of this.objectives) o.done = done;
+    this.saveState();
+    const changed = this.recomputeStatusFromObjectives();
+    if (changed) this.onStatusChangeCb?.(this.id, this.status);
+    if (this.panel) void this.openPanel();
+    return changed;
+  }
+
+  /**
+   * Status is derived: Locked while any prerequisite is unlearned, Learned
+   * once every objective is done, Available otherwise. Returns true when it
+   * changed.
+   */
+  private recomputeStatusFromObjectives(): boolean {
+    let next = NodeStatus.Available;
+    if (!this.prereqsMet) next = NodeStatus.Locked;
+    else if (this.objectives.length > 0 && this.objectives.every((o) => o.done))
+      next = NodeStatus.Learned;
+
+    if (next === this.status) return false;
+    this.status = next;
+    this.refreshVisual();
     this.saveState();
+    return true;
+  }
+
+  /** Called by main whenever the upstream nodes may have changed. */
+  public setPrerequisitesMet(met: boolean): boolean {
+    this.prereqsMet = met;
+    return this.recomputeStatusFromObjectives();
   }
 
   private async showTooltip() {
@@ -429,9 +834,17 @@ export class UINode {
     if (this.tooltip) return;
 
     const headerRow = await buildHeaderRow(this.title, this.difficulty, { align: "left", iconPx: 14 });
+    const lines = this.prereqLinesCb?.(this.id) ?? [];
+    const prereqs = new Text({
+      text: lines.join("\n"),
+      style: { fill: 0xdddddd, fontSize: 12, lineHeight: 16 },
+    });
+    prereqs.visible = lines.length > 0;
 
-    const w = headerRow.width + PAD * 2;
-    const h = Math.max(headerRow.height, 14) + PAD * 2;
+    const headerH = Math.max(headerRow.height, 14);
+    const bodyW = prereqs.visible ? prereqs.width : 0;
+    const w = Math.max(headerRow.width, bodyW) + PAD * 2;
+    const h = headerH + (prereqs.visible ? prereqs.height + 6 : 0) + PAD * 2;
 
     const bg = new Graphics();
     bg.roundRect(0, 0, w, h, RADIUS)
@@ -439,15 +852,38 @@ export class UINode {
       .stroke({ color: 0xffffff, width: 1, alpha: 0.25 });
 
     const c = new Container();
-    c.addChild(bg, headerRow);
+    c.addChild(bg, headerRow, prereqs);
     headerRow.position.set(PAD, PAD);
+    prereqs.position.set(PAD, PAD + headerH + 6);
 
     this.tooltip = c;
     this.tooltip.zIndex = 10_001;
     this.uiLayer.addChild(this.tooltip);
 
-    const { x: gx, y: gy } = this.tree.toGlobal({ x: this.x, y: this.y });
-    c.position.set(Math.round(gx - w / 2), Math.round(gy - h - 14));
+    const { gx, gy, r } = this.screenAnchor();
+    c.position.set(Math.round(gx - w / 2), Math.round(gy - r - h - 14));
+  }
+
+  // Node centre on screen and its on-screen radius under the current camera.
+  private screenAnchor() {
+    const { x: gx, y: gy } = this.tree!.toGlobal({ x: this.x, y: this.y });
+    return { gx, gy, r: this.radius * this.tree!.worldTransform.a };
+  }
+
+  private placePanel() {
+    if (!this.panel) return;
+    const { gx, gy, r } = this.screenAnchor();
+    this.panel.position.set(
+      Math.round(gx - this.panel.width / 2),
+      Math.round(gy + r + 20),
+    );
+    this.panel.placeEditor();
+  }
+
+  /** Called after the camera pans or zooms: the panel follows, the tooltip goes. */
+  public followCamera() {
+    this.hideTooltip();
+    this.placePanel();
   }
 
   private hideTooltip() {
@@ -468,22 +904,71 @@ export class UINode {
       onToggle: (objId) => {
         const o = this.objectives.find((x) => x.id === objId);
         if (!o) return;
-        o.done = !o.done;
-        this.saveState();
-        this.recomputeStatusFromObjectives();
-        this.panel?.setObjectives(this.objectives.slice());
+        this.editObjectives(
+          o.done ? "uncheck objective" : "check objective",
+          () => {
+            o.done = !o.done;
+          },
+        );
       },
       onClose: () => this.closePanel(),
+      onEdit: this.onEditCb && (() => this.onEditCb?.(this.id)),
+      canvas: this.app.canvas,
+      edits: {
+        add: (text) =>
+          this.editObjectives("add objective", () => {
+            this.objectives.push({
+              id: Math.random().toString(36).slice(2),
+              text,
+              done: false,
+            });
+          }),
+        rename: (objId, text) =>
+          this.editObjectives("rename objective", () => {
+            const o = this.objectives.find((x) => x.id === objId);
+            if (o) o.text = text;
+          }),
+        remove: (objId) =>
+          this.editObjectives("delete objective", () => {
+            this.objectives = this.objectives.filter((x) => x.id !== objId);
+          }),
+        move: (objId, toIndex) =>
+          this.editObjectives("reorder objectives", () => {
+            const i = this.objectives.findIndex((x) => x.id === objId);
+            if (i < 0) return;
+            const [o] = this.objectives.splice(i, 1);
+            this.objectives.splice(toIndex, 0, o);
+          }),
+      },
     });
 
-    const { x: gx, y: gy } = this.tree.toGlobal({ x: this.x, y: this.y });
-    const px = Math.round(gx - panel.width / 2);
-    const py = Math.round(gy + 20);
-
     this.panel = panel;
     this.panel.zIndex = 10_000;
     this.uiLayer.addChild(this.panel);
-    this.panel.position.set(px, py);
+    this.placePanel();
+    await panel.ready;
+    if (this.panel === panel) this.placePanel();
+  }
+
+  /**
+   * Every objective change from the panel: recorded for undo, saved, status
+   * re-derived, then the panel is rebuilt and re-centred at its new size.
+   */
+  private editObjectives(label: string, change: () => void) {
+    this.transact(label, () => {
+      change();
+      this.saveState();
+      if (this.recomputeStatusFromObjectives())
+        this.onStatusChangeCb?.(this.id, this.status);
+    });
+    const panel = this.panel;
+    void panel?.setObjectives(this.objectives.slice()).then(() => {
+      if (this.panel === panel) this.placePanel();
+    });
+  }
+
+  public get panelOpen() {
+    return this.panel != null;
   }
 
   public closePanel() {
@@ -510,12 +995,9 @@ export class UINode {
     (this.container as any).cursor = "grabbing";
     ev.stopPropagation?.();
 
-    const gp = ev.global as { x: number; y: number };
-    const s = this.tree.scale.x;
-    const designX = (gp.x - this.tree.position.x) / s;
-    const designY = (gp.y - this.tree.position.y) / s;
-    this.dragOffset.dx = designX - this.x;
-    this.dragOffset.dy = designY - this.y;
+    const down = this.tree.toLocal(ev.global as { x: number; y: number });
+    this.dragOffset.dx = down.x - this.x;
+    this.dragOffset.dy = down.y - this.y;
     this.dragStart.x = this.x;
     this.dragStart.y = this.y;
 
@@ -525,16 +1007,20 @@ export class UINode {
       const sx = e.clientX - rect.left;
       const sy = e.clientY - rect.top;
 
-      const nx = (sx - this.tree!.position.x) / s - this.dragOffset.dx;
-      const ny = (sy - this.tree!.position.y) / s - this.dragOffset.dy;
-
+      const p = this.tree!.toLocal({ x: sx, y: sy });
+      let nx = p.x - this.dragOffset.dx;
+      let ny = p.y - this.dragOffset.dy;
       if (Math.hypot(nx - this.dragStart.x, ny - this.dragStart.y) > 1.5) {
         this.didDrag = true;
       }
+      // snap after the drag threshold so a jittery click can't jump the node
+      if (this.snapCb && this.didDrag) {
+        ({ x: nx, y: ny } = this.snapCb(this.id, nx, ny, e.altKey));
+      }
 
       this.x = nx;
       this.y = ny;
-      this.refreshVisual();
+      this.place();
       this.onMoveCb?.(this.id, this.x, this.y);
     };
 
@@ -542,7 +1028,6 @@ export class UINode {
       if (!this.dragging) return;
       this.dragging = false;
       (this.container as any).cursor = "pointer";
-      this.persistXY();
       this.onDropCb?.(this.id, this.x, this.y);
 
       this.suppressTapUntil = performance.now() + 150;
@@ -1,26 +1,40 @@
 // WaterFlowOverlay.ts
 import * as THREE from "three";
-import type { Application, Container } from "pixi.js";
+import { Sprite, Texture, type Application, type Container } from "pixi.js";
 
 type Pt = { x: number; y: number };
 
-type FlowOptions = {
+// Sizes are design px: tubes live in tree space and zoom with it.
+export type FlowOptions = {
   color?: number; // body color (gold by default)
   edgeColor?: number; // pale rim tint
   opacity?: number; // overall alpha
   radiusPx?: number; // line thickness
-  bend?: number; // curve bend (px downward)
-  speed?: number; // (kept for API) currents speed (unused in PoE mode)
-  streakDensity?: number; // (kept for API) currents density (unused)
-  nodeRadiusPx?: number; // visual node radius
+  bend?: number; // curve bend (px downward) when no control point is given
+  speed?: number; // currents: streak speed, px/s from `from` to `to` (0 = off)
+  streakDensity?: number; // currents: streaks per 100 px (0 = off)
+  nodeRadiusPx?: number; // extent of the node at `to` (UINode.extentToward); 0 = on its outline
   endUnderlapPx?: number; // extend under node ring to avoid a seam
   taperPx?: number; // fade near the ends
   glowScale?: number; // soft halo scale
 };
 
-type Flow = {
+/**
+ * One tube: `ctrl` null is straight, undefined sags by `bend`; `via` lists
+ * corners of an orthogonal route instead (and wins over `ctrl`).
+ */
+export type FlowSpec = {
+  id: string;
   from: Pt;
   to: Pt;
+  ctrl?: Pt | null;
+  via?: Pt[];
+  opts?: FlowOptions;
+};
+
+type Flow = {
+  id: string;
+  sig: string; // rebuilt only when this changes
   opts: Required<FlowOptions>;
   core: THREE.Mesh;
   glow: THREE.Mesh;
@@ -32,11 +46,18 @@ type Flow = {
     uSpeed: { value: number };
     uStreakDensity: { value: number };
     uTaper: { value: number };
+    uLength: { value: number };
   };
 };
 
+/**
+ * Gold tubes rendered by three.js into an offscreen canvas, shown through a
+ * Pixi sprite inside the tree so they sit above the background and under the
+ * nodes. Geometry is in design space; every frame the three camera is set to
+ * the part of the design the viewport shows, so panning and zooming cost no
+ * rebuilds.
+ */
 export class WaterFlowOverlay {
-  private mount: HTMLElement;
   private app: Application;
   private tree: Container;
   private dprCap: number;
@@ -45,41 +66,30 @@ export class WaterFlowOverlay {
   private renderer: THREE.WebGLRenderer;
   private scene: THREE.Scene;
   private camera: THREE.OrthographicCamera;
+  private texture: Texture;
+  private sprite: Sprite;
 
-  private flows: Flow[] = [];
+  private flows = new Map<string, Flow>();
+  private seq = 0;
   private last = performance.now();
-  private raf: number | null = null;
 
   constructor(args: {
-    mount: HTMLElement;
     pixiApp: Application;
     treeContainer: Container;
-    designW: number; // kept for parity
-    designH: number; // kept for parity
+    layer: Container; // a child of treeContainer, between background and nodes
     dprCap?: number;
   }) {
-    this.mount = args.mount;
     this.app = args.pixiApp;
     this.tree = args.treeContainer;
     this.dprCap = args.dprCap ?? 2;
 
-    // Transparent overlay UNDER Pixi (Pixi canvas should be zIndex: "10")
     this.canvas = document.createElement("canvas");
-    Object.assign(this.canvas.style, {
-      position: "absolute",
-      inset: "0",
-      width: "100%",
-      height: "100%",
-      pointerEvents: "none",
-      zIndex: "0", // << under Pixi
-    } as CSSStyleDeclaration);
-    this.mount.appendChild(this.canvas);
-
     this.renderer = new THREE.WebGLRenderer({
       canvas: this.canvas,
       antialias: true,
       alpha: true,
       premultipliedAlpha: false,
+      preserveDrawingBuffer: true, // read back by the Pixi texture
     });
     // sRGB output (fallback for older three versions)
     (this.renderer as any).outputColorSpace =
@@ -100,24 +110,71 @@ export class WaterFlowOverlay {
       -100,
       100,
     );
-    this.camera.top = 0;
-    this.camera.bottom = window.innerHeight;
-    this.camera.updateProjectionMatrix();
 
     window.addEventListener("resize", this.onResize);
     this.onResize();
-    this.start();
+
+    this.texture = Texture.from(this.canvas);
+    this.sprite = new Sprite(this.texture);
+    this.sprite.eventMode = "none";
+    args.layer.addChild(this.sprite);
+    this.app.ticker.add(this.tick);
   }
 
   destroy() {
     window.removeEventListener("resize", this.onResize);
-    if (this.raf) cancelAnimationFrame(this.raf);
+    this.app.ticker.remove(this.tick);
     this.clear();
+    this.sprite.destroy();
+    this.texture.destroy(true);
     this.renderer.dispose();
-    this.canvas.remove();
   }
 
+  get visible() {
+    return this.sprite.visible;
+  }
+
+  set visible(v: boolean) {
+    this.sprite.visible = v;
+  }
+
+  /** A one-off flow between two design points. */
   link(x1: number, y1: number, x2: number, y2: number, o?: FlowOptions) {
+    this.build({
+      id: `link${++this.seq}`,
+      from: { x: x1, y: y1 },
+      to: { x: x2, y: y2 },
+      opts: o,
+    });
+  }
+
+  /**
+   * Makes the overlay show exactly `specs`, matched by id. Flows whose
+   * geometry and options are unchanged keep their meshes, so dragging a node
+   * only rebuilds the tubes touching it.
+   */
+  sync(specs: readonly FlowSpec[]) {
+    const next = new Set(specs.map((s) => s.id));
+    for (const f of this.flows.values())
+      if (!next.has(f.id)) {
+        this.dispose(f);
+        this.flows.delete(f.id);
+      }
+    this.update(specs);
+  }
+
+  /** Like `sync` for just these flows; the others are left alone. */
+  update(specs: readonly FlowSpec[]) {
+    for (const s of specs) {
+      const f = this.flows.get(s.id);
+      if (f && f.sig === signature(s)) continue;
+      if (f) this.dispose(f);
+      this.build(s);
+    }
+  }
+
+  private build(spec: FlowSpec) {
+    const o = spec.opts;
     // PoE-ish defaults (thin gold, subtle halo, whisper pulse)
     const opts: Required<FlowOptions> = {
       color: o?.color ?? 0xffd46a, // warm gold
@@ -125,34 +182,53 @@ export class WaterFlowOverlay {
       opacity: o?.opacity ?? 1.0,
       radiusPx: o?.radiusPx ?? 3.5,
       bend: o?.bend ?? 110,
-      speed: o?.speed ?? 0.0, // currents off (kept for API)
-      streakDensity: o?.streakDensity ?? 0.0, // currents off (kept for API)
-      nodeRadiusPx: o?.nodeRadiusPx ?? 26,
+      speed: o?.speed ?? 0.0, // currents off
+      streakDensity: o?.streakDensity ?? 0.0,
+      nodeRadiusPx: o?.nodeRadiusPx ?? 0,
       endUnderlapPx: o?.endUnderlapPx ?? 3,
       taperPx: o?.taperPx ?? 18,
       glowScale: o?.glowScale ?? 1.18,
     };
 
-    const A = this.designToScreen(x1, y1);
-    const Bfull = this.designToScreen(x2, y2);
+    const A = spec.from;
+    const via = spec.via ?? [];
+    const before = via[via.length - 1] ?? spec.ctrl ?? A;
     const B = this.shortenUnderNode(
-      new THREE.Vector2(A.x, A.y),
-      new THREE.Vector2(Bfull.x, Bfull.y),
+      new THREE.Vector2(before.x, before.y),
+      new THREE.Vector2(spec.to.x, spec.to.y),
       opts.nodeRadiusPx + opts.endUnderlapPx,
     );
 
-    // Curve geometry
-    const ctrl = { x: (A.x + B.x) * 0.5, y: Math.max(A.y, B.y) + opts.bend };
+    // Curve geometry; a straight flow is a curve with its control point midway
+    const ctrl =
+      spec.ctrl === undefined
+        ? { x: (A.x + B.x) * 0.5, y: Math.max(A.y, B.y) + opts.bend }
+        : (spec.ctrl ?? { x: (A.x + B.x) * 0.5, y: (A.y + B.y) * 0.5 });
     const pts: THREE.Vector3[] = [];
     const segs = 128;
-    for (let i = 0; i <= segs; i++) {
-      const t = i / segs;
-      const x =
-        (1 - t) * (1 - t) * A.x + 2 * (1 - t) * t * ctrl.x + t * t * B.x;
-      const y =
-        (1 - t) * (1 - t) * A.y + 2 * (1 - t) * t * ctrl.y + t * t * B.y;
-      pts.push(new THREE.Vector3(x, y, 0));
-    }
+    if (via.length) {
+      // dense points along each leg keep the corners tight
+      const corners = [A, ...via, B];
+      const per = Math.ceil(segs / (corners.length - 1));
+      for (let i = 1; i < corners.length; i++) {
+        const p = corners[i - 1];
+        const q = corners[i];
+        for (let k = i === 1 ? 0 : 1; k <= per; k++) {
+          const t = k / per;
+          pts.push(
+            new THREE.Vector3(p.x + (q.x - p.x) * t, p.y + (q.y - p.y) * t, 0),
+          );
+        }
+      }
+    } else
+      for (let i = 0; i <= segs; i++) {
+        const t = i / segs;
+        const x =
+          (1 - t) * (1 - t) * A.x + 2 * (1 - t) * t * ctrl.x + t * t * B.x;
+        const y =
+          (1 - t) * (1 - t) * A.y + 2 * (1 - t) * t * ctrl.y + t * t * B.y;
+        pts.push(new THREE.Vector3(x, y, 0));
+      }
     const curve = new THREE.CatmullRomCurve3(pts);
     const tube = new THREE.TubeGeometry(
       curve,
@@ -162,7 +238,7 @@ export class WaterFlowOverlay {
       false,
     );
 
-    // Shared uniforms (pulse only; no streaks)
+    // Shared uniforms (pulse, plus streaks when currents are on)
     const uniforms = {
       uTime: { value: 0 },
       uBase: { value: new THREE.Color(opts.color) },
@@ -171,6 +247,7 @@ export class WaterFlowOverlay {
       uSpeed: { value: opts.speed },
       uStreakDensity: { value: opts.streakDensity },
       uTaper: { value: opts.taperPx },
+      uLength: { value: curve.getLength() },
     };
 
     // Core wire — opaque-ish look (Normal blending), tapered ends
@@ -185,12 +262,13 @@ export class WaterFlowOverlay {
     const core = new THREE.Mesh(tube, coreMat);
     core.frustumCulled = false;
 
-    // Very subtle halo
-    const glowGeom = tube.clone();
-    (glowGeom as THREE.BufferGeometry).scale(
-      opts.glowScale,
-      opts.glowScale,
-      opts.glowScale,
+    // Very subtle halo: a wider tube along the same curve
+    const glowGeom = new THREE.TubeGeometry(
+      curve,
+      Math.max(64, segs * 2),
+      opts.radiusPx * opts.glowScale,
+      20,
+      false,
     );
     const glowMat = new THREE.ShaderMaterial({
       uniforms: {
@@ -207,9 +285,9 @@ export class WaterFlowOverlay {
     glow.frustumCulled = false;
 
     this.scene.add(glow, core);
-    this.flows.push({
-      from: { x: x1, y: y1 },
-      to: { x: x2, y: y2 },
+    this.flows.set(spec.id, {
+      id: spec.id,
+      sig: signature(spec),
       opts,
       core,
       glow,
@@ -218,20 +296,17 @@ export class WaterFlowOverlay {
   }
 
   clear() {
-    for (const f of this.flows) {
-      this.scene.remove(f.core, f.glow);
-      (f.core.material as any).dispose?.();
-      (f.core.geometry as any).dispose?.();
-      (f.glow.material as any).dispose?.();
-      (f.glow.geometry as any).dispose?.();
-    }
-    this.flows = [];
+    for (const f of this.flows.values()) this.dispose(f);
+    this.flows.clear();
   }
 
   // ---------------- internals ----------------
-  private designToScreen(x: number, y: number) {
-    const s = this.tree.scale.x; // uniform scale
-    return { x: this.tree.position.x + x * s, y: this.tree.position.y + y * s };
+  private dispose(f: Flow) {
+    this.scene.remove(f.core, f.glow);
+    (f.core.material as any).dispose?.();
+    (f.core.geometry as any).dispose?.();
+    (f.glow.material as any).dispose?.();
+    (f.glow.geometry as any).dispose?.();
   }
 
   private shortenUnderNode(a: THREE.Vector2, b: THREE.Vector2, r: number) {
@@ -241,21 +316,35 @@ export class WaterFlowOverlay {
     return new THREE.Vector2().copy(b).addScaledVector(dir, -r);
   }
 
-  private start() {
-    const loop = () => {
-      const now = performance.now();
-      const dt = (now - this.last) / 1000;
-      this.last = now;
-
-      // whisper-of-life pulse (uTime drives breathing in shader)
-      for (const f of this.flows) f.uniforms.uTime.value += dt;
+  // Runs before Pixi renders, so the sprite shows this frame's tubes.
+  private tick = () => {
+    const now = performance.now();
+    const dt = (now - this.last) / 1000;
+    this.last = now;
+    if (!this.sprite.visible) return;
+
+    // whisper-of-life pulse (uTime drives breathing in shader)
+    for (const f of this.flows.values()) f.uniforms.uTime.value += dt;
+
+    // frame the design rect the viewport shows; the sprite covers the same rect
+    const tl = this.tree.toLocal({ x: 0, y: 0 });
+    const br = this.tree.toLocal({
+      x: this.app.screen.width,
+      y: this.app.screen.height,
+    });
+    this.camera.left = tl.x;
+    this.camera.right = br.x;
+    this.camera.top = tl.y;
+    this.camera.bottom = br.y;
+    this.camera.updateProjectionMatrix();
+    this.sprite.position.set(tl.x, tl.y);
+    this.sprite.width = br.x - tl.x;
+    this.sprite.height = br.y - tl.y;
 
-      this.renderer.clear();
-      this.renderer.render(this.scene, this.camera);
-      this.raf = requestAnimationFrame(loop);
-    };
-    this.raf = requestAnimationFrame(loop);
-  }
+    this.renderer.clear();
+    this.renderer.render(this.scene, this.camera);
+    this.texture.source.update();
+  };
 
   private onResize = () => {
     const w = window.innerWidth,
@@ -264,38 +353,56 @@ export class WaterFlowOverlay {
       Math.min(window.devicePixelRatio || 1, this.dprCap),
     );
     this.renderer.setSize(w, h, false);
-    this.camera.right = w;
-    this.camera.bottom = h;
-    this.camera.updateProjectionMatrix();
-
-    // rebuild geometries to respect new scaling/position
-    const keep = [...this.flows];
-    this.clear();
-    for (const f of keep) this.link(f.from.x, f.from.y, f.to.x, f.to.y, f.opts);
+    this.texture?.source.resize(this.canvas.width, this.canvas.height);
   };
 }
 
+// Rounded so sub-pixel jitter doesn't rebuild a tube.
+function signature(s: FlowSpec) {
+  const r = (p: Pt | null | undefined) =>
+    p ? `${Math.round(p.x * 10)},${Math.round(p.y * 10)}` : String(p);
+  const via = (s.via ?? []).map(r).join(";");
+  return `${r(s.from)}|${r(s.to)}|${r(s.ctrl)}|${via}|${JSON.stringify(s.opts ?? {})}`;
+}
+
 /* ======================= SHADERS ======================= */
 
+// TubeGeometry's uv.x runs along the tube (0 at `from`); facing is 1 on the
+// centreline as seen by the camera and 0 at the silhouette.
 const CORE_VS = /* glsl */ `
-  varying vec2 vUv;
+  varying float vAlong;
+  varying float vFacing;
   void main() {
-    vUv = uv;
+    vAlong = uv.x;
+    vFacing = abs(normalize(normalMatrix * normal).z);
     gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
   }
 `;
 
+// Comet-shaped streaks travelling towards the dependent node; 0 when off.
+const STREAKS = /* glsl */ `
+  float streaks(float along){
+    if (uSpeed <= 0.0 || uStreakDensity <= 0.0) return 0.0;
+    float x = (along * uLength - uTime * uSpeed) * uStreakDensity / 100.0;
+    float s = fract(x);
+    return pow(s, 6.0) * smoothstep(1.0, 0.92, s);
+  }
+`;
+
 // PoE-style beveled gold wire with subtle breathing pulse; tapered ends
 const CORE_FS_POE = /* glsl */ `
   precision highp float;
-  varying vec2 vUv;
+  varying float vAlong;
+  varying float vFacing;
   uniform vec3  uBase;        // gold base
   uniform vec3  uEdge;        // pale rim
   uniform float uOpacity;
   uniform float uTime;
-  uniform float uSpeed;         // kept for API
-  uniform float uStreakDensity; // kept for API
+  uniform float uSpeed;         // currents, px/s
+  uniform float uStreakDensity; // currents, streaks per 100 px
   uniform float uTaper;
+  uniform float uLength;        // tube length, px
+  ${STREAKS}
 
   float taperMask(float y){
     // fade near both ends
@@ -306,7 +413,7 @@ const CORE_FS_POE = /* glsl */ `
 
   void main() {
     // 0 at rim, 1 at center
-    float r = 1.0 - abs(vUv.x * 2.0 - 1.0);
+    float r = vFacing;
     float body  = smoothstep(0.0, 0.85, r);
     float ridge = smoothstep(0.55, 1.0, r);   // inner highlight
     float rim   = smoothstep(0.72, 0.98, r);  // outer bevel
@@ -320,26 +427,36 @@ const CORE_FS_POE = /* glsl */ `
     float pulse = 0.04 * sin(uTime * 0.9);
     col *= (1.0 + pulse);
 
-    float alpha = uOpacity * max(body, 0.10) * taperMask(vUv.y);
+    // currents: pale light riding the ridge
+    float st = streaks(vAlong);
+    col = mix(col, uEdge * 1.3, st * ridge);
+
+    float alpha = uOpacity * max(body, 0.10) * taperMask(vAlong);
+    alpha = min(1.0, alpha + st * 0.4 * body);
     gl_FragColor = vec4(col, alpha);
   }
 `;
 
 const GLOW_FS_POE = /* glsl */ `
   precision highp float;
-  varying vec2 vUv;
+  varying float vAlong;
+  varying float vFacing;
   uniform vec3  uBase;
   uniform float uOpacity;
   uniform float uTime;
   uniform float uSpeed;
   uniform float uStreakDensity;
+  uniform float uLength;
+  ${STREAKS}
 
   void main(){
-    float r = 1.0 - abs(vUv.x * 2.0 - 1.0);
+    float r = vFacing;
     float halo = smoothstep(0.0, 0.50, r);
     // faint breathing so halo feels alive
     float breathe = 0.10 + 0.10 * sin(uTime * 0.6);
-    vec3 col = uBase * (0.30 * halo + breathe * halo);
+    // streaks flare the halo as they pass
+    float st = streaks(vAlong);
+    vec3 col = uBase * (0.30 * halo + breathe * halo + 0.8 * st * halo);
     gl_FragColor = vec4(col, uOpacity * halo);
   }
 `;
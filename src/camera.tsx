@@ -0,0 +1,105 @@
+// src/camera.tsx
+import type { Application } from "pixi.js";
+import { Viewport } from "pixi-viewport";
+
+/* ───────────────────────── Types & constants ───────────────────────── */
+export type Rect = { x: number; y: number; w: number; h: number };
+
+const MAX_SCALE = 3; // closest zoom: 3 screen px per design px
+const MIN_FIT_FRACTION = 0.5; // can zoom out to half the whole-tree fit
+const FIT_PAD = 120; // design px kept around fitted content
+const FIT_MS = 350;
+
+/* ───────────────────── camera ───────────────────── */
+/**
+ * The tree lives inside a pixi-viewport: left-drag pans, the wheel zooms
+ * around the cursor, and trackpad pinch / touch pinch zoom too. Anything
+ * that converts between screen and design space must go through
+ * `toLocal` / `toGlobal` on it rather than reading scale and position.
+ */
+export function createCamera(
+  app: Application,
+  designW: number,
+  designH: number,
+): Viewport {
+  const vp = new Viewport({
+    screenWidth: window.innerWidth,
+    screenHeight: window.innerHeight,
+    worldWidth: designW,
+    worldHeight: designH,
+    events: app.renderer.events,
+    passiveWheel: false,
+  });
+  vp.drag()
+    .pinch()
+    .wheel({ smooth: 3, trackpadPinch: true })
+    .decelerate({ friction: 0.92 });
+  clampZoomToWorld(vp);
+  return vp;
+}
+
+function clampZoomToWorld(vp: Viewport) {
+  vp.plugins.remove("clamp-zoom");
+  vp.clampZoom({
+    minScale: vp.findFit(vp.worldWidth, vp.worldHeight) * MIN_FIT_FRACTION,
+    maxScale: MAX_SCALE,
+  });
+}
+
+/** Window resized: keep looking at the same design point. */
+export function resizeCamera(vp: Viewport, w: number, h: number) {
+  const center = vp.center;
+  vp.resize(w, h);
+  clampZoomToWorld(vp);
+  vp.moveCenter(center);
+}
+
+/** Frames `r` (design space) with some padding, animated by default. */
+export function fitRect(vp: Viewport, r: Rect, animate = true) {
+  const scale = Math.min(
+    MAX_SCALE,
+    vp.findFit(r.w + FIT_PAD * 2, r.h + FIT_PAD * 2),
+  );
+  const position = { x: r.x + r.w / 2, y: r.y + r.h / 2 };
+  if (animate) {
+    vp.plugins.remove("animate");
+    vp.animate({ position, scale, time: FIT_MS, ease: "easeInOutSine" });
+  } else {
+    vp.setZoom(scale);
+    vp.moveCenter(position);
+  }
+}
+
+/**
+ * Centres on a design point immediately. `moveCenter` alone is silent, so this
+ * also emits "moved" for anything that follows the camera.
+ */
+export function centerOn(vp: Viewport, x: number, y: number) {
+  vp.plugins.remove("animate");
+  vp.plugins.get("decelerate")?.reset();
+  vp.moveCenter(x, y);
+  vp.emit("moved", { viewport: vp, type: "ensureVisible" });
+}
+
+/**
+ * Bounding box of node centres, each grown by `radius` (one for all, or per
+ * point), or null for no points.
+ */
+export function boundsOf<P extends { x: number; y: number }>(
+  points: ReadonlyArray<P>,
+  radius: number | ((p: P) => number) = 0,
+): Rect | null {
+  if (!points.length) return null;
+  let x0 = Infinity,
+    y0 = Infinity,
+    x1 = -Infinity,
+    y1 = -Infinity;
+  for (const p of points) {
+    const r = typeof radius === "number" ? radius : radius(p);
+    x0 = Math.min(x0, p.x - r);
+    y0 = Math.min(y0, p.y - r);
+    x1 = Math.max(x1, p.x + r);
+    y1 = Math.max(y1, p.y + r);
+  }
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+}
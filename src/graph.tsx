@@ -0,0 +1,390 @@
+// src/graph.tsx
+import { NodeStatus } from "./nodeTypes";
+
+/* ───────────────────────── Types ───────────────────────── */
+/**
+ * How a prerequisite counts: "requires" must be learned, "recommended" never
+ * blocks, and "any-of" edges into the same node with the same `group` form an
+ * OR-group where one learned parent is enough.
+ */
+export type EdgeRelation = "requires" | "recommended" | "any-of";
+
+/** Any edge-like row: `from` is the prerequisite, `to` the dependent node. */
+export type GraphEdge = {
+  from: string;
+  to: string;
+  relation?: EdgeRelation; // missing means "requires"
+  group?: string; // any-of group; edges without one share the default group
+};
+
+type StatusOf = (id: string) => NodeStatus | undefined;
+
+/* ───────────────────── adjacency ───────────────────── */
+export function parentsOf(id: string, edges: readonly GraphEdge[]): string[] {
+  return edges.filter((e) => e.to === id).map((e) => e.from);
+}
+
+export function childrenOf(id: string, edges: readonly GraphEdge[]): string[] {
+  return edges.filter((e) => e.from === id).map((e) => e.to);
+}
+
+/**
+ * Kahn's algorithm over `ids`. Nodes caught in a cycle can never reach
+ * in-degree 0, so they are appended in their original order at the end.
+ */
+export function topologicalOrder(
+  ids: readonly string[],
+  edges: readonly GraphEdge[],
+): string[] {
+  const known = new Set(ids);
+  const indeg = new Map<string, number>(ids.map((id) => [id, 0]));
+  for (const e of edges) {
+    if (known.has(e.from) && known.has(e.to))
+      indeg.set(e.to, indeg.get(e.to)! + 1);
+  }
+
+  const queue = ids.filter((id) => indeg.get(id) === 0);
+  const order: string[] = [];
+  while (queue.length) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const e of edges) {
+      if (e.from !== id || !known.has(e.to)) continue;
+      const d = indeg.get(e.to)! - 1;
+      indeg.set(e.to, d);
+      if (d === 0) queue.push(e.to);
+    }
+  }
+
+  if (order.length < ids.length) {
+    const placed = new Set(order);
+    order.push(...ids.filter((id) => !placed.has(id)));
+  }
+  return order;
+}
+
+/* ───────────────────── prerequisites ───────────────────── */
+type Requirement = { ids: string[]; anyOf: boolean };
+
+// "requires" edges one by one, then an entry per any-of group, in edge order.
+function requirementsOf(id: string, edges: readonly GraphEdge[]) {
+  const out: Requirement[] = [];
+  const anyOf = new Map<string, Requirement>();
+  for (const e of edges) {
+    if (e.to !== id || e.relation === "recommended") continue;
+    if (e.relation !== "any-of") {
+      out.push({ ids: [e.from], anyOf: false });
+      continue;
+    }
+    const key = e.group ?? "";
+    const known = anyOf.get(key);
+    if (known) known.ids.push(e.from);
+    else {
+      const r = { ids: [e.from], anyOf: true };
+      anyOf.set(key, r);
+      out.push(r);
+    }
+  }
+  return out;
+}
+
+/**
+ * What unlocking `id` takes: one list per requirement, where learning any one
+ * entry satisfies it. A "requires" edge is a requirement of its own, each
+ * any-of group is one, and recommended edges aren't requirements at all.
+ */
+export function requirementGroups(
+  id: string,
+  edges: readonly GraphEdge[],
+): string[][] {
+  return requirementsOf(id, edges).map((r) => r.ids);
+}
+
+/**
+ * A node is unlocked once every requirement has a Learned parent. Edges
+ * pointing at nodes that no longer exist don't block anything.
+ */
+export function prerequisitesMet(
+  id: string,
+  edges: readonly GraphEdge[],
+  statusOf: StatusOf,
+): boolean {
+  const met = (p: string) => {
+    const s = statusOf(p);
+    return s === undefined || s === NodeStatus.Learned;
+  };
+  return requirementGroups(id, edges).every((g) => g.some(met));
+}
+
+export type PrerequisiteSummary = {
+  requires: { id: string; met: boolean }[];
+  anyOf: { ids: string[]; met: boolean }[]; // OR-groups, in edge order
+  recommended: { id: string; met: boolean }[];
+};
+
+/** `id`'s prerequisites split by relation, for tooltips. */
+export function summarizePrerequisites(
+  id: string,
+  edges: readonly GraphEdge[],
+  statusOf: StatusOf,
+): PrerequisiteSummary {
+  const learned = (p: string) => statusOf(p) === NodeStatus.Learned;
+  const out: PrerequisiteSummary = { requires: [], anyOf: [], recommended: [] };
+  for (const r of requirementsOf(id, edges)) {
+    if (r.anyOf) out.anyOf.push({ ids: r.ids, met: r.ids.some(learned) });
+    else out.requires.push({ id: r.ids[0], met: learned(r.ids[0]) });
+  }
+  for (const e of edges)
+    if (e.to === id && e.relation === "recommended")
+      out.recommended.push({ id: e.from, met: learned(e.from) });
+  return out;
+}
+
+/**
+ * Re-evaluates every node parents-first, so a single pass settles a DAG.
+ * `apply` pushes the prerequisite flag into a node and reports whether its
+ * status changed.
+ */
+export function evaluateAll(
+  ids: readonly string[],
+  edges: readonly GraphEdge[],
+  statusOf: StatusOf,
+  apply: (id: string, met: boolean) => boolean,
+) {
+  for (const id of topologicalOrder(ids, edges)) {
+    apply(id, prerequisitesMet(id, edges, statusOf));
+  }
+}
+
+/**
+ * Walks downstream from `startIds` breadth-first. Only nodes whose status
+ * actually changed push their own children onward; the visit cap keeps a
+ * cycle from ping-ponging forever.
+ */
+export function propagateFrom(
+  startIds: readonly string[],
+  edges: readonly GraphEdge[],
+  statusOf: StatusOf,
+  apply: (id: string, met: boolean) => boolean,
+) {
+  const MAX_VISITS = 4;
+  const visits = new Map<string, number>();
+  const queue = [...startIds];
+
+  while (queue.length) {
+    const id = queue.shift()!;
+    for (const child of childrenOf(id, edges)) {
+      const n = (visits.get(child) ?? 0) + 1;
+      if (n > MAX_VISITS) continue;
+      visits.set(child, n);
+      if (apply(child, prerequisitesMet(child, edges, statusOf)))
+        queue.push(child);
+    }
+  }
+}
+
+/* ───────────────────── cycles & validation ───────────────────── */
+/** Shortest chain of node ids from `from` to `to`, or null if unreachable. */
+export function findPath(
+  from: string,
+  to: string,
+  edges: readonly GraphEdge[],
+): string[] | null {
+  const prev = new Map<string, string>([[from, from]]);
+  const queue = [from];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (id === to) {
+      const path = [to];
+      while (path[0] !== from) path.unshift(prev.get(path[0])!);
+      return path;
+    }
+    for (const next of childrenOf(id, edges)) {
+      if (prev.has(next)) continue;
+      prev.set(next, id);
+      queue.push(next);
+    }
+  }
+  return null;
+}
+
+/**
+ * The loop `from → to` would close, e.g. [from, to, …, from], or null when
+ * the edge keeps the graph acyclic.
+ */
+export function cycleThrough(
+  from: string,
+  to: string,
+  edges: readonly GraphEdge[],
+): string[] | null {
+  if (from === to) return [from, to];
+  const back = findPath(to, from, edges);
+  return back ? [from, ...back] : null;
+}
+
+export type GraphReport = {
+  cycles: string[][]; // each closed: first id repeated at the end
+  mirrored: Array<[string, string]>; // both a→b and b→a exist
+  duplicates: GraphEdge[]; // same from/to stored more than once
+  dangling: GraphEdge[]; // endpoint id not among the nodes
+};
+
+export function validateGraph(
+  nodeIds: readonly string[],
+  edges: readonly GraphEdge[],
+): GraphReport {
+  const known = new Set(nodeIds);
+  const dangling = edges.filter((e) => !known.has(e.from) || !known.has(e.to));
+  const live = edges.filter((e) => known.has(e.from) && known.has(e.to));
+
+  const seen = new Set<string>();
+  const duplicates: GraphEdge[] = [];
+  const mirrored: Array<[string, string]> = [];
+  for (const e of live) {
+    const k = `${e.from}->${e.to}`;
+    if (seen.has(k)) duplicates.push(e);
+    else if (seen.has(`${e.to}->${e.from}`)) mirrored.push([e.to, e.from]);
+    seen.add(k);
+  }
+
+  // DFS back-edges; mirrored pairs are already reported on their own
+  const mirroredKeys = new Set(
+    mirrored.flatMap(([a, b]) => [`${a}|${b}`, `${b}|${a}`]),
+  );
+  const cycles: string[][] = [];
+  const cycleKeys = new Set<string>();
+  const state = new Map<string, "open" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, "open");
+    stack.push(id);
+    for (const next of childrenOf(id, live)) {
+      if (state.get(next) === "open") {
+        const loop = stack.slice(stack.indexOf(next));
+        const key = [...loop].sort().join("|");
+        if (!cycleKeys.has(key) && !mirroredKeys.has(key)) {
+          cycleKeys.add(key);
+          cycles.push([...loop, next]);
+        }
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+  };
+  for (const id of nodeIds) if (!state.has(id)) visit(id);
+
+  return { cycles, mirrored, duplicates, dangling };
+}
+
+/* ───────────────────── goal planning ───────────────────── */
+export type PlanInfo = {
+  status: NodeStatus;
+  difficulty: number;
+  remaining: number; // unticked objectives
+};
+
+export type StudyPlan = {
+  goal: string;
+  /** Unlearned nodes to study, prerequisites first; the goal comes last. */
+  steps: string[];
+  difficulty: number;
+  objectives: number;
+  /** The first step that is already unlocked, if any. */
+  next: string | null;
+};
+
+type InfoOf = (id: string) => PlanInfo | undefined;
+
+/**
+ * The unlearned nodes needed to reach `goal`. Where a requirement can be met
+ * in more than one way, the option adding the least difficulty wins (fewer
+ * nodes breaks ties), not the one with the fewest hops. Missing nodes don't
+ * block anything, same as for unlocking.
+ */
+export function planGoal(
+  goal: string,
+  edges: readonly GraphEdge[],
+  infoOf: InfoOf,
+): StudyPlan {
+  const memo = new Map<string, Set<string>>();
+  const trail = new Set<string>(); // cycle guard
+  const weight = (id: string) => (infoOf(id)?.difficulty ?? 0) + 0.001;
+
+  const need = (id: string): Set<string> => {
+    const info = infoOf(id);
+    if (!info || info.status === NodeStatus.Learned) return new Set();
+    const known = memo.get(id);
+    if (known) return known;
+    if (trail.has(id)) return new Set([id]);
+    trail.add(id);
+
+    const out = new Set([id]);
+    for (const group of requirementGroups(id, edges)) {
+      const options = group.map(need);
+      if (options.some((o) => o.size === 0)) continue; // already met
+      let best = options[0];
+      let bestCost = Infinity;
+      for (const o of options) {
+        let cost = 0;
+        for (const x of o) if (!out.has(x)) cost += weight(x);
+        if (cost < bestCost) {
+          best = o;
+          bestCost = cost;
+        }
+      }
+      for (const x of best) out.add(x);
+    }
+
+    trail.delete(id);
+    memo.set(id, out);
+    return out;
+  };
+
+  const steps = studyOrder([...need(goal)], edges, infoOf);
+  let difficulty = 0,
+    objectives = 0;
+  for (const id of steps) {
+    difficulty += infoOf(id)?.difficulty ?? 0;
+    objectives += infoOf(id)?.remaining ?? 0;
+  }
+  const next =
+    steps.find((id) => infoOf(id)?.status === NodeStatus.Available) ?? null;
+  return { goal, steps, difficulty, objectives, next };
+}
+
+// Prerequisites first; among the ready ones the easiest goes next.
+function studyOrder(
+  ids: readonly string[],
+  edges: readonly GraphEdge[],
+  infoOf: InfoOf,
+): string[] {
+  const inPlan = new Set(ids);
+  const inner = edges.filter((e) => inPlan.has(e.from) && inPlan.has(e.to));
+  const indeg = new Map<string, number>(ids.map((id) => [id, 0]));
+  for (const e of inner) indeg.set(e.to, indeg.get(e.to)! + 1);
+
+  const easier = (a: string, b: string) =>
+    (infoOf(a)?.difficulty ?? 0) - (infoOf(b)?.difficulty ?? 0) ||
+    a.localeCompare(b);
+  const ready = ids.filter((id) => indeg.get(id) === 0);
+  const order: string[] = [];
+  while (ready.length) {
+    ready.sort(easier);
+    const id = ready.shift()!;
+    order.push(id);
+    for (const e of inner) {
+      if (e.from !== id) continue;
+      const d = indeg.get(e.to)! - 1;
+      indeg.set(e.to, d);
+      if (d === 0) ready.push(e.to);
+    }
+  }
+  if (order.length < ids.length) {
+    const placed = new Set(order);
+    order.push(...ids.filter((id) => !placed.has(id)));
+  }
+  return order;
+}
@@ -0,0 +1,84 @@
+// src/history.tsx
+/* ───────────────────────── Types ───────────────────────── */
+type Entry<S> = { label: string; before: S; after: S };
+
+type HistoryOpts<S> = {
+  capture: () => S;
+  restore: (s: S) => void;
+  /** Entries whose before/after match are dropped (e.g. a refused edge). */
+  same?: (a: S, b: S) => boolean;
+  limit?: number;
+};
+
+/* ───────────────────── history ───────────────────── */
+/**
+ * Snapshot-based undo/redo: every mutation runs inside `transact`, which
+ * captures the state before and after it. Undo and redo simply restore one
+ * of the two snapshots, so ids and ordering come back exactly.
+ */
+export function createHistory<S>(opts: HistoryOpts<S>) {
+  const limit = opts.limit ?? 100;
+  let done: Entry<S>[] = [];
+  let undone: Entry<S>[] = [];
+  let depth = 0; // nested transact calls fold into the outermost one
+  let restoring = false;
+
+  const transact = <T,>(label: string, mutate: () => T): T => {
+    if (restoring || depth > 0) return mutate();
+
+    const before = opts.capture();
+    depth++;
+    let result: T;
+    try {
+      result = mutate();
+    } finally {
+      depth--;
+    }
+    const after = opts.capture();
+    if (opts.same?.(before, after)) return result;
+    done.push({ label, before, after });
+    if (done.length > limit) done = done.slice(-limit);
+    undone = [];
+    return result;
+  };
+
+  const apply = (s: S) => {
+    restoring = true;
+    try {
+      opts.restore(s);
+    } finally {
+      restoring = false;
+    }
+  };
+
+  /** Returns the label of the step that was undone, if any. */
+  const undo = (): string | null => {
+    const e = done.pop();
+    if (!e) return null;
+    apply(e.before);
+    undone.push(e);
+    return e.label;
+  };
+
+  const redo = (): string | null => {
+    const e = undone.pop();
+    if (!e) return null;
+    apply(e.after);
+    done.push(e);
+    return e.label;
+  };
+
+  const clear = () => {
+    done = [];
+    undone = [];
+  };
+
+  return {
+    transact,
+    undo,
+    redo,
+    clear,
+    canUndo: () => done.length > 0,
+    canRedo: () => undone.length > 0,
+  };
+}
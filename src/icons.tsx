@@ -0,0 +1,134 @@
+// src/icons.tsx
+import { Texture } from "pixi.js";
+import {
+  ICON_PREFIX,
+  iconKey,
+  keysWithPrefix,
+  readRaw,
+  removeKey,
+  writeRaw,
+} from "./storage";
+
+/* ───────────────────────── constants ───────────────────────── */
+const ICON_PX = 128; // stored size; big enough for the largest node core
+const ICON_TYPE = "image/png";
+
+const log = (...a: unknown[]) =>
+  console.log(`[icons ${new Date().toLocaleTimeString()}]`, ...a);
+
+/* ───────────────────── store ───────────────────── */
+// Icons live under `tol.icon.v1.<hash of the image>`, next to the node state;
+// nodes refer to them by that hash, so nodes using the same picture share one
+// stored copy and one texture.
+
+async function hashOf(dataUrl: string) {
+  const bytes = new TextEncoder().encode(dataUrl);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return [...new Uint8Array(digest).slice(0, 10)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Not a readable image"));
+    img.src = src;
+  });
+
+// Centre-cropped to a square and scaled down, so any photo fits in storage.
+async function normalize(blob: Blob): Promise<string> {
+  const url = URL.createObjectURL(blob);
+  try {
+    const img = await loadImage(url);
+    const side = Math.min(img.naturalWidth, img.naturalHeight);
+    const size = Math.min(ICON_PX, side);
+    const cv = Object.assign(document.createElement("canvas"), {
+      width: size,
+      height: size,
+    });
+    cv.getContext("2d")!.drawImage(
+      img,
+      (img.naturalWidth - side) / 2,
+      (img.naturalHeight - side) / 2,
+      side,
+      side,
+      0,
+      0,
+      size,
+      size,
+    );
+    return cv.toDataURL(ICON_TYPE);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Stores an image file or pasted blob; resolves to the id nodes keep. */
+export async function storeIcon(blob: Blob): Promise<string> {
+  const dataUrl = await normalize(blob);
+  const id = await hashOf(dataUrl);
+  if (readRaw(iconKey(id)) == null) writeRaw(iconKey(id), dataUrl);
+  return id;
+}
+
+/** The stored image as a data URL, or null if it's missing. */
+export const iconData = (id: string) => readRaw(iconKey(id));
+
+/**
+ * Stores the icons of an imported file like any other picture: normalized and
+ * keyed by their own hash, whatever ids the file gave them. Resolves to the
+ * new id for each file id; icons that don't decode are left out.
+ */
+export async function importIcons(
+  icons: Record<string, string>,
+): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  for (const [id, dataUrl] of Object.entries(icons)) {
+    try {
+      const blob = await (await fetch(dataUrl)).blob();
+      ids.set(id, await storeIcon(blob));
+    } catch (e) {
+      log("unreadable imported icon", id, e);
+    }
+  }
+  return ids;
+}
+
+/**
+ * Drops stored icons no node refers to any more. Only safe while nothing
+ * (an undo step) can bring a reference back, i.e. at startup.
+ */
+export function pruneIcons(used: Iterable<string>) {
+  const keep = new Set(used);
+  let n = 0;
+  for (const key of keysWithPrefix(ICON_PREFIX)) {
+    if (keep.has(key.slice(ICON_PREFIX.length))) continue;
+    removeKey(key);
+    n++;
+  }
+  if (n) log(`removed ${n} unused icon(s)`);
+}
+
+/* ───────────────────── textures ───────────────────── */
+const textures = new Map<string, Promise<Texture | null>>();
+
+/** One shared texture per icon; null when the icon is missing or broken. */
+export function iconTexture(id: string): Promise<Texture | null> {
+  let t = textures.get(id);
+  if (!t) {
+    const dataUrl = iconData(id);
+    t = dataUrl
+      ? loadImage(dataUrl).then(
+          (img) => Texture.from(img),
+          (e) => {
+            log("unreadable icon", id, e);
+            return null;
+          },
+        )
+      : Promise.resolve(null);
+    textures.set(id, t);
+  }
+  return t;
+}
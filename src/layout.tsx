@@ -0,0 +1,228 @@
+// src/layout.tsx
+/* ───────────────────────── Types ───────────────────────── */
+export type Point = { x: number; y: number };
+export type Positioned = Point & { id: string };
+
+/** New design-space positions by node id; nodes left out don't move. */
+export type Placement = Map<string, Point>;
+
+export type AlignMode = "align-left" | "align-center" | "distribute";
+
+/* ───────────────────── alignment ───────────────────── */
+/**
+ * "align-left" lines the nodes up on the leftmost x, "align-center" on the
+ * middle of their bounding box. "distribute" spaces them evenly between the
+ * two outermost nodes along whichever axis they are spread out more.
+ */
+export function alignNodes(
+  nodes: readonly Positioned[],
+  mode: AlignMode,
+): Placement {
+  const out: Placement = new Map();
+  if (nodes.length < 2) return out;
+
+  const xs = nodes.map((n) => n.x);
+  const ys = nodes.map((n) => n.y);
+  const minX = Math.min(...xs),
+    maxX = Math.max(...xs);
+  const minY = Math.min(...ys),
+    maxY = Math.max(...ys);
+
+  if (mode === "align-left" || mode === "align-center") {
+    const x = mode === "align-left" ? minX : (minX + maxX) / 2;
+    for (const n of nodes) out.set(n.id, { x, y: n.y });
+    return out;
+  }
+
+  const axis: keyof Point = maxY - minY >= maxX - minX ? "y" : "x";
+  const sorted = nodes.slice().sort((a, b) => a[axis] - b[axis]);
+  const first = sorted[0][axis];
+  const step = (sorted[sorted.length - 1][axis] - first) / (sorted.length - 1);
+  sorted.forEach((n, i) => {
+    const v = first + step * i;
+    out.set(n.id, axis === "y" ? { x: n.x, y: v } : { x: v, y: n.y });
+  });
+  return out;
+}
+
+/* ───────────────────── auto layout ───────────────────── */
+export type LayoutMode = "layered" | "radial";
+export type LayoutEdge = { from: string; to: string };
+/** `radius`: how far the node reaches from its centre; rows keep neighbours apart by it. */
+export type LayoutNode = Positioned & { pinned?: boolean; radius?: number };
+export type Area = { x: number; y: number; w: number; h: number };
+
+export type LayoutOptions = {
+  mode: LayoutMode;
+  /** Everything has to land inside this design-space box. */
+  area: Area;
+  /** Where the roots go (layered: bottom row centre, radial: the centre). Defaults to the area. */
+  anchor?: Point;
+};
+
+const LAYER_GAP = 220; // design px between rows / rings
+const NODE_MARGIN = 72; // design px of clear space between neighbours in a row
+const NODE_RADIUS = 54; // for nodes that don't say: a standard node
+const SWEEPS = 6; // barycenter passes (alternating down / up)
+
+/**
+ * Layers the graph by longest path from the roots (nodes without
+ * prerequisites), orders each layer by the barycenter heuristic to cut down
+ * crossings, then places the layers as rows growing upwards from the roots or
+ * as rings around them. Edges to nodes outside `nodes` are ignored, and pinned
+ * nodes are ordered like the rest but keep their position.
+ */
+export function autoLayout(
+  nodes: readonly LayoutNode[],
+  edges: readonly LayoutEdge[],
+  opts: LayoutOptions,
+): Placement {
+  const out: Placement = new Map();
+  if (!nodes.length) return out;
+
+  const layers = orderLayers(nodes, edges);
+  const place = opts.mode === "radial" ? placeRadial : placeLayered;
+  const area = opts.area;
+  const anchor = opts.anchor ?? {
+    x: area.x + area.w / 2,
+    y: opts.mode === "radial" ? area.y + area.h / 2 : area.y + area.h,
+  };
+  const radius = new Map(nodes.map((n) => [n.id, n.radius ?? NODE_RADIUS]));
+  const points = place(layers, anchor, area, (id) => radius.get(id)!);
+
+  const pinned = new Set(nodes.filter((n) => n.pinned).map((n) => n.id));
+  for (const [id, p] of points) if (!pinned.has(id)) out.set(id, p);
+  return out;
+}
+
+/** Node ids per layer, layer 0 holding the roots, each in crossing-reduced order. */
+function orderLayers(
+  nodes: readonly LayoutNode[],
+  edges: readonly LayoutEdge[],
+): string[][] {
+  const ids = new Set(nodes.map((n) => n.id));
+  const inner = edges.filter((e) => ids.has(e.from) && ids.has(e.to));
+  const ups = new Map<string, string[]>(); // prerequisites
+  const downs = new Map<string, string[]>(); // dependents
+  for (const id of ids) {
+    ups.set(id, []);
+    downs.set(id, []);
+  }
+  for (const e of inner) {
+    ups.get(e.to)!.push(e.from);
+    downs.get(e.from)!.push(e.to);
+  }
+
+  // longest path from the roots (Kahn); anything left on a cycle goes last
+  const depth = new Map<string, number>();
+  const waiting = new Map([...ids].map((id) => [id, ups.get(id)!.length]));
+  let queue = [...ids].filter((id) => !waiting.get(id));
+  for (const id of queue) depth.set(id, 0);
+  while (queue.length) {
+    const next: string[] = [];
+    for (const id of queue)
+      for (const d of downs.get(id)!) {
+        depth.set(d, Math.max(depth.get(d) ?? 0, depth.get(id)! + 1));
+        const left = waiting.get(d)! - 1;
+        waiting.set(d, left);
+        if (!left) next.push(d);
+      }
+    queue = next;
+  }
+  const deepest = Math.max(-1, ...depth.values());
+  for (const id of ids) if (!depth.has(id)) depth.set(id, deepest + 1);
+
+  // start from the current left-to-right order so small edits stay stable
+  const x = new Map(nodes.map((n) => [n.id, n.x]));
+  const layers: string[][] = [];
+  for (const id of ids) (layers[depth.get(id)!] ??= []).push(id);
+  for (const layer of layers) layer.sort((a, b) => x.get(a)! - x.get(b)!);
+
+  const slot = new Map<string, number>();
+  const index = (layer: string[]) =>
+    layer.forEach((id, i) => slot.set(id, (i + 1) / (layer.length + 1)));
+  layers.forEach(index);
+
+  for (let pass = 0; pass < SWEEPS; pass++) {
+    const down = pass % 2 === 0;
+    const order = down ? layers.slice(1) : layers.slice(0, -1).reverse();
+    for (const layer of order) {
+      const bary = new Map<string, number>();
+      for (const id of layer) {
+        const nb = (down ? ups : downs).get(id)!;
+        bary.set(
+          id,
+          nb.length
+            ? nb.reduce((s, n) => s + slot.get(n)!, 0) / nb.length
+            : slot.get(id)!,
+        );
+      }
+      layer.sort((a, b) => bary.get(a)! - bary.get(b)!);
+      index(layer);
+    }
+  }
+  return layers;
+}
+
+// Rows from the anchor upwards, squeezed to fit the area when needed. Each
+// node takes its own width plus the margin, so big nodes get more room.
+function placeLayered(
+  layers: string[][],
+  anchor: Point,
+  area: Area,
+  radius: (id: string) => number,
+) {
+  const rows = layers.map((layer) => {
+    const xs = [0];
+    for (let i = 1; i < layer.length; i++)
+      xs.push(
+        xs[i - 1] + radius(layer[i - 1]) + radius(layer[i]) + NODE_MARGIN,
+      );
+    const span = xs[xs.length - 1];
+    const room = span + radius(layer[0]) + radius(layer[layer.length - 1]);
+    return { xs, span, room: room + NODE_MARGIN };
+  });
+  const squeeze = Math.min(1, area.w / Math.max(...rows.map((r) => r.room)));
+  const rowGap = Math.min(LAYER_GAP, area.h / Math.max(1, layers.length));
+  const w = Math.max(...rows.map((r) => r.span)) * squeeze;
+  const h = (layers.length - 1) * rowGap;
+  const cx = clamp(anchor.x, area.x + w / 2, area.x + area.w - w / 2);
+  const bottom = clamp(anchor.y, area.y + h, area.y + area.h);
+
+  const out: Placement = new Map();
+  layers.forEach((layer, depth) => {
+    const { xs, span } = rows[depth];
+    const x0 = cx - (span * squeeze) / 2;
+    layer.forEach((id, i) =>
+      out.set(id, { x: x0 + xs[i] * squeeze, y: bottom - depth * rowGap }),
+    );
+  });
+  return out;
+}
+
+// Rings around the anchor; a single root sits in the middle.
+function placeRadial(layers: string[][], anchor: Point, area: Area) {
+  const first = layers[0].length === 1 ? 0 : 1;
+  const rings = layers.length - 1 + first;
+  const fit = Math.min(area.w, area.h) / 2 / Math.max(1, rings);
+  const gap = Math.min(LAYER_GAP, fit);
+  const r = rings * gap;
+  const cx = clamp(anchor.x, area.x + r, area.x + area.w - r);
+  const cy = clamp(anchor.y, area.y + r, area.y + area.h - r);
+
+  const out: Placement = new Map();
+  layers.forEach((layer, depth) => {
+    const radius = (depth + first) * gap;
+    layer.forEach((id, i) => {
+      const a = -Math.PI / 2 + (2 * Math.PI * (i + 0.5)) / layer.length;
+      out.set(id, {
+        x: cx + radius * Math.cos(a),
+        y: cy + radius * Math.sin(a),
+      });
+    });
+  });
+  return out;
+}
+
+const clamp = (v: number, lo: number, hi: number) =>
+  lo > hi ? (lo + hi) / 2 : Math.min(hi, Math.max(lo, v));
@@ -1,20 +1,147 @@
-import { Application, Assets, Container, Sprite } from "pixi.js";
+import {
+  Application,
+  Assets,
+  Container,
+  Graphics,
+  Sprite,
+  Text,
+} from "pixi.js";
 import { initDevtools } from "@pixi/devtools";
 import { UINode } from "./UINode";
-import { NodeStatus } from "./nodeTypes";
+import {
+  NodeStatus,
+  statusToTheme,
+  type NodeState,
+  type StoredEdge,
+  type StoredNode,
+} from "./nodeTypes";
+import { releaseGradients } from "./node_drawer";
 import { openCreateNodeDialog } from "./CreateNodeDialog";
-import { UIEdge, EdgeKind } from "./UIEdge";
+import {
+  UIEdge,
+  EdgeKind,
+  type EdgeContext,
+  type EdgeMarker,
+  type EdgeStyle,
+} from "./UIEdge";
+import {
+  cycleThrough,
+  evaluateAll,
+  planGoal,
+  propagateFrom,
+  summarizePrerequisites,
+  validateGraph,
+  type EdgeRelation,
+  type StudyPlan,
+} from "./graph";
+import {
+  openActionBar,
+  openReportPanel,
+  showToast,
+  type ActionBar,
+} from "./notices";
+import {
+  hasPendingWrites,
+  lockStorage,
+  nodeStateKey,
+  onStorageError,
+  openStorage,
+  readJSON,
+  readRaw,
+  removeKey,
+  runMigrations,
+  storageLocked,
+  writeJSON,
+  writeRaw,
+  EDGES_KEY,
+  NODES_KEY,
+} from "./storage";
+import { adapterFromConfig } from "./storageAdapters";
+import { createHistory } from "./history";
+import { boundsOf, createCamera, fitRect, resizeCamera } from "./camera";
+import { Minimap } from "./Minimap";
+import { Dashboard } from "./Dashboard";
+import {
+  WaterFlowOverlay,
+  type FlowOptions,
+  type FlowSpec,
+} from "./WaterFlowOverlay";
+import {
+  alignNodes,
+  autoLayout,
+  type AlignMode,
+  type LayoutMode,
+  type Placement,
+} from "./layout";
+import { snapPoint, type Guide } from "./snapping";
+import { matchesFilter, type NodeFilter, type SearchEntry } from "./search";
+import { SearchPanel } from "./SearchPanel";
+import { GRID_PITCHES, loadSettings, saveSettings } from "./settings";
+import {
+  applyTheme,
+  findTheme,
+  isPreset,
+  loadThemes,
+  PRESET_THEMES,
+  saveThemes,
+  type TreeTheme,
+} from "./themes";
+import { ThemeEditor } from "./ThemeEditor";
+import { iconData, importIcons, pruneIcons, storeIcon } from "./icons";
+import {
+  buildTreeDocument,
+  parseTreeDocument,
+  remapForMerge,
+  type TreeDocument,
+} from "./treeDocument";
 
 /* ───────────────────────── CONSTANTS ───────────────────────── */
 const DESIGN_W = 5000;
 const DESIGN_H = 7000;
-const STORAGE_KEY = "tol_nodes_v1";
-const NODE_STATE_PREFIX = "tol.node.v1.";
-const EDGES_KEY = "tol_edges_v1";
+const TRUNK_X = DESIGN_W / 2; // the background tree's trunk runs up the middle
+const EDGE_KINDS: EdgeKind[] = ["linear", "curvy", "arc", "circuit"];
+const EDGE_MARKERS: EdgeMarker[] = ["none", "arrow", "chevrons"];
+const EDGE_RELATIONS: EdgeRelation[] = ["requires", "recommended", "any-of"];
+const ANY_OF_GROUPS = ["1", "2", "3"]; // "1" is the default group, stored as no group
+const nextOf = <T,>(list: T[], v: T) =>
+  list[(list.indexOf(v) + 1) % list.length];
+const FRAME_MARGIN = 6; // design px kept around a node's outline when framing it
+const SNAP_SCREEN_PX = 8; // snap distance, constant on screen at any zoom
+const LAYOUT_MARGIN = 150; // design px auto layout keeps from the design edges
+const LAYOUT_MS = 600;
+const PICK_VIEW = 900; // design px framed around a node picked in search
+const DIMMED_ALPHA = 0.22;
+const GOAL_COLOR = 0xffd54a;
+const NODE_RING_GAP = 14; // design px between a node's rim and its goal ring
+// flow tubes: dim gold like the plain edges, glowing once the source is learned;
+// they follow the edge geometry, which already ends on each node's outline
+const FLOW_IDLE: FlowOptions = {
+  color: 0xc6a24a,
+  opacity: 0.7,
+  endUnderlapPx: 0,
+};
+const FLOW_LEARNED: FlowOptions = {
+  endUnderlapPx: 0,
+  radiusPx: 4,
+  glowScale: 2.2,
+};
+const RECOMMENDED_FLOW_OPACITY = 0.35;
+// a learned node still feeding one that isn't: the same tube with currents
+const FLOW_FEEDING: FlowOptions = {
+  ...FLOW_LEARNED,
+  speed: 90,
+  streakDensity: 0.8,
+};
 
 /* ───────────────────────── Types & Store ───────────────────────── */
-type StoredNode = { id: string; x: number; y: number; status: NodeStatus };
-type StoredEdge = { from: string; to: string; kind?: EdgeKind };
+type EdgeResult = { ok: true } | { ok: false; reason: string };
+
+/** One undo step's view of the tree; rows and raw state strings are shared, not copied. */
+type TreeSnapshot = {
+  nodes: StoredNode[];
+  edges: StoredEdge[];
+  states: Map<string, string>;
+};
 
 /* handy log */
 const log = (...args: any[]) =>
@@ -24,15 +151,16 @@ function createNodeStore() {
   let nodes: StoredNode[] = [];
 
   const load = () => {
-    try {
-      const raw = localStorage.getItem(STORAGE_KEY);
-      nodes = raw ? (JSON.parse(raw) as StoredNode[]) : [];
-    } catch {
+    const r = readJSON<StoredNode[]>(NODES_KEY);
+    if (r.ok) nodes = Array.isArray(r.value) ? r.value : [];
+    else {
+      // start empty, but never save that emptiness over the real data
       nodes = [];
+      lockStorage(r.error);
     }
   };
 
-  const save = () => localStorage.setItem(STORAGE_KEY, JSON.stringify(nodes));
+  const save = () => writeJSON(NODES_KEY, nodes);
 
   const nextId = () =>
     `N${(
@@ -63,8 +191,15 @@ function createNodeStore() {
     }
   };
 
-  const removeNearest = (x: number, y: number, maxDist = 40): string | null => {
-    if (!nodes.length) return null;
+  const setStatus = (id: string, status: NodeStatus) => {
+    const i = nodes.findIndex((n) => n.id === id);
+    if (i !== -1 && nodes[i].status !== status) {
+      nodes[i] = { ...nodes[i], status };
+      save();
+    }
+  };
+
+  const nearestIndex = (x: number, y: number, maxDist: number) => {
     let k = -1,
       best = Infinity;
     for (let i = 0; i < nodes.length; i++) {
@@ -74,48 +209,191 @@ function createNodeStore() {
         k = i;
       }
     }
-    if (k !== -1 && best <= maxDist) {
-      const [removed] = nodes.splice(k, 1);
-      save();
-      return removed.id;
-    }
-    return null;
+    return k !== -1 && best <= maxDist ? k : -1;
+  };
+
+  const nearest = (x: number, y: number, maxDist = 40): string | null => {
+    const k = nearestIndex(x, y, maxDist);
+    return k === -1 ? null : nodes[k].id;
+  };
+
+  const get = (id: string) => nodes.find((n) => n.id === id);
+
+  // Group edits touch many rows but still write the store once.
+  const moveMany = (placement: Placement) => {
+    let moved = 0;
+    nodes = nodes.map((n) => {
+      const p = placement.get(n.id);
+      if (!p || (p.x === n.x && p.y === n.y)) return n;
+      moved++;
+      return { ...n, x: p.x, y: p.y };
+    });
+    if (moved) save();
+    return moved;
+  };
+
+  const setPinned = (ids: Iterable<string>, pinned: boolean) => {
+    const hit = new Set(ids);
+    let changed = 0;
+    nodes = nodes.map((n) => {
+      if (!hit.has(n.id) || !!n.pinned === pinned) return n;
+      changed++;
+      const row: StoredNode = { ...n, pinned };
+      if (!pinned) delete row.pinned; // keep unpinned rows as they were
+      return row;
+    });
+    if (changed) save();
+    return changed;
+  };
+
+  const removeMany = (ids: Iterable<string>) => {
+    const drop = new Set(ids);
+    const before = nodes.length;
+    nodes = nodes.filter((n) => !drop.has(n.id));
+    if (nodes.length !== before) save();
   };
 
   const clear = () => {
     nodes = [];
     save();
   };
+  const replace = (rows: StoredNode[]) => {
+    nodes = rows.slice();
+    save();
+  };
   const list = () => nodes.slice();
 
   load();
-  return { load, save, add, update, list, clear, removeNearest };
+  return {
+    load,
+    save,
+    add,
+    update,
+    setStatus,
+    list,
+    clear,
+    replace,
+    get,
+    nearest,
+    moveMany,
+    setPinned,
+    removeMany,
+  };
 }
 
 function createEdgeStore() {
   let edges: StoredEdge[] = [];
 
   const load = () => {
-    try {
-      const raw = localStorage.getItem(EDGES_KEY);
-      edges = raw ? (JSON.parse(raw) as StoredEdge[]) : [];
-    } catch {
+    const r = readJSON<StoredEdge[]>(EDGES_KEY);
+    if (r.ok) edges = Array.isArray(r.value) ? r.value : [];
+    else {
       edges = [];
+      lockStorage(r.error);
     }
   };
-  const save = () => localStorage.setItem(EDGES_KEY, JSON.stringify(edges));
+  const save = () => writeJSON(EDGES_KEY, edges);
 
-  const add = (from: string, to: string, kind: EdgeKind) => {
-    if (from === to) return;
-    if (edges.some((e) => e.from === from && e.to === to && (e.kind ?? "curvy") === kind)) return;
+  // Edges are prerequisites, so the graph has to stay a DAG.
+  const add = (from: string, to: string, kind: EdgeKind): EdgeResult => {
+    if (from === to)
+      return { ok: false, reason: "A node can't require itself" };
+    if (edges.some((e) => e.from === from && e.to === to))
+      return { ok: false, reason: `${from} → ${to} already exists` };
+    const loop = cycleThrough(from, to, edges);
+    if (loop) {
+      log("edge refused (cycle)", loop);
+      return {
+        ok: false,
+        reason: `That would close a loop: ${loop.join(" → ")}`,
+      };
+    }
     edges.push({ from, to, kind });
     save();
     log("edge added", { from, to, kind });
+    return { ok: true };
+  };
+
+  const find = (from: string, to: string) =>
+    edges.find((e) => e.from === from && e.to === to);
+
+  const remove = (from: string, to: string) => {
+    const row = find(from, to);
+    if (!row) return false;
+    edges = edges.filter((e) => e !== row);
+    save();
+    log("edge removed", { from, to });
+    return true;
+  };
+
+  // Rows are swapped for new objects so undo snapshots keep the old ones.
+  const reverse = (from: string, to: string): EdgeResult => {
+    const row = find(from, to);
+    if (!row) return { ok: false, reason: `${from} → ${to} doesn't exist` };
+    const rest = edges.filter((e) => e !== row);
+    if (rest.some((e) => e.from === to && e.to === from))
+      return { ok: false, reason: `${to} → ${from} already exists` };
+    const loop = cycleThrough(to, from, rest);
+    if (loop)
+      return {
+        ok: false,
+        reason: `Reversing would close a loop: ${loop.join(" → ")}`,
+      };
+    edges = edges.map((e) => (e === row ? { ...row, from: to, to: from } : e));
+    save();
+    log("edge reversed", { from: to, to: from });
+    return { ok: true };
+  };
+
+  const setKind = (from: string, to: string, kind: EdgeKind) => {
+    const row = find(from, to);
+    if (!row || row.kind === kind) return;
+    edges = edges.map((e) => (e === row ? { ...row, kind } : e));
+    save();
+  };
+
+  // "requires" and the default group aren't stored; other relations drop the group.
+  const setRelation = (
+    from: string,
+    to: string,
+    relation: EdgeRelation,
+    group?: string,
+  ) => {
+    const row = find(from, to);
+    if (!row) return;
+    const next: StoredEdge = { ...row, relation };
+    if (relation === "requires") delete next.relation;
+    if (relation === "any-of" && group) next.group = group;
+    else delete next.group;
+    edges = edges.map((e) => (e === row ? next : e));
+    save();
+  };
+
+  // Overrides equal to undefined are dropped; an empty style goes entirely.
+  const setStyle = (from: string, to: string, patch: Partial<EdgeStyle>) => {
+    const row = find(from, to);
+    if (!row) return;
+    const style: Partial<EdgeStyle> = { ...row.style, ...patch };
+    for (const k of Object.keys(style) as (keyof EdgeStyle)[])
+      if (style[k] === undefined) delete style[k];
+    const next: StoredEdge = { ...row, style };
+    if (!Object.keys(style).length) delete next.style;
+    edges = edges.map((e) => (e === row ? next : e));
+    save();
+  };
+
+  const removeDangling = (nodeIds: readonly string[]) => {
+    const known = new Set(nodeIds);
+    const before = edges.length;
+    edges = edges.filter((e) => known.has(e.from) && known.has(e.to));
+    if (edges.length !== before) save();
+    return before - edges.length;
   };
 
-  const removeWithNode = (id: string) => {
+  const removeWithNodes = (ids: Iterable<string>) => {
+    const drop = new Set(ids);
     const before = edges.length;
-    edges = edges.filter((e) => e.from !== id && e.to !== id);
+    edges = edges.filter((e) => !drop.has(e.from) && !drop.has(e.to));
     if (edges.length !== before) save();
   };
 
@@ -124,10 +402,29 @@ function createEdgeStore() {
     save();
   };
 
+  const replace = (rows: StoredEdge[]) => {
+    edges = rows.slice();
+    save();
+  };
+
   const list = () => edges.slice();
 
   load();
-  return { load, save, add, removeWithNode, list, clear };
+  return {
+    load,
+    save,
+    add,
+    remove,
+    reverse,
+    setKind,
+    setStyle,
+    setRelation,
+    removeWithNodes,
+    removeDangling,
+    list,
+    clear,
+    replace,
+  };
 }
 
 /* ───────────────────────── MAIN ───────────────────────── */
@@ -164,14 +461,22 @@ function createEdgeStore() {
   root.appendChild(app.canvas);
 
   // LAYERS
-  const treeContainer = new Container();
+  const treeContainer = createCamera(app, DESIGN_W, DESIGN_H);
+  const gridLayer = new Graphics(); // optional snap grid over the background
+  const goalLayer = new Container(); // study path to the goal, under the edges
+  const flowLayer = new Container(); // flow tubes, when edges are drawn as flows
   const edgesContainer = new Container(); // edges under nodes
   const nodesContainer = new Container();
+  const guidesLayer = new Graphics(); // alignment guides while dragging
   const uiLayer = new Container();
   uiLayer.sortableChildren = true;
 
+  treeContainer.addChild(gridLayer);
+  treeContainer.addChild(goalLayer);
+  treeContainer.addChild(flowLayer);
   treeContainer.addChild(edgesContainer);
   treeContainer.addChild(nodesContainer);
+  treeContainer.addChild(guidesLayer);
   app.stage.addChild(treeContainer);
   app.stage.addChild(uiLayer);
 
@@ -182,23 +487,28 @@ function createEdgeStore() {
   treeSprite.height = DESIGN_H;
   treeContainer.addChildAt(treeSprite, 0);
 
-  // Resize
+  // Resize: the camera keeps its centre, we start framing the whole design
   function resize() {
-    const scale = Math.min(
-      window.innerWidth / DESIGN_W,
-      window.innerHeight / DESIGN_H,
-    );
-    treeContainer.scale.set(scale);
-    treeContainer.position.set(
-      (window.innerWidth - DESIGN_W * scale) / 2,
-      (window.innerHeight - DESIGN_H * scale) / 2,
-    );
     app.renderer.resize(window.innerWidth, window.innerHeight);
+    resizeCamera(treeContainer, window.innerWidth, window.innerHeight);
   }
   window.addEventListener("resize", resize);
   resize();
+  fitRect(treeContainer, { x: 0, y: 0, w: DESIGN_W, h: DESIGN_H }, false);
 
-  // Stores
+  // Storage backend, then upgrade the saved layout, then the stores
+  const adapter = adapterFromConfig();
+  try {
+    await openStorage(adapter);
+  } catch (e) {
+    lockStorage(`Couldn't open ${adapter.name}: ${String(e)}`);
+  }
+  onStorageError((msg) => showToast(app, uiLayer, msg, "warn"));
+  window.addEventListener("beforeunload", (e) => {
+    if (hasPendingWrites()) e.preventDefault();
+  });
+
+  const migration = await runMigrations();
   const nodeStore = createNodeStore();
   const edgeStore = createEdgeStore();
 
@@ -206,6 +516,75 @@ function createEdgeStore() {
   let uiNodes: UINode[] = [];
   let nodeMap: Map<string, UINode> = new Map();
   let uiEdges: UIEdge[] = [];
+  // how far a node reaches from its centre, for framing; nodes differ by archetype
+  const extentOf = (p: { id: string }) =>
+    (nodeMap.get(p.id)?.radius ?? 0) + FRAME_MARGIN;
+
+  // Minimap reads the live UINode positions so it follows drags too
+  const minimap = new Minimap(
+    app,
+    uiLayer,
+    treeContainer,
+    bgTexture,
+    DESIGN_W,
+    DESIGN_H,
+    () => ({ nodes: uiNodes, edges: edgeStore.list() }),
+  );
+  window.addEventListener("resize", () => minimap.place());
+
+  // Progress overlay (d); redrawn whenever node state is saved
+  const dashboard = new Dashboard(
+    app,
+    uiLayer,
+    () =>
+      uiNodes.map((n) => ({
+        id: n.id,
+        status: n.status,
+        title: n.meta.title,
+        difficulty: n.meta.difficulty,
+        ...n.progress,
+      })),
+    (id) => pickNode(id),
+  );
+  window.addEventListener("resize", () => dashboard.place());
+
+  /* ───────────── Undo / redo (Ctrl+Z / Ctrl+Shift+Z) ───────────── */
+  const captureTree = (): TreeSnapshot => {
+    const nodes = nodeStore.list();
+    const states = new Map<string, string>();
+    for (const n of nodes) {
+      const raw = readRaw(nodeStateKey(n.id));
+      if (raw != null) states.set(n.id, raw);
+    }
+    return { nodes, edges: edgeStore.list(), states };
+  };
+
+  const restoreTree = (s: TreeSnapshot) => {
+    const reopen = uiNodes.find((n) => n.panelOpen)?.id;
+    clearEdgeSelection();
+    for (const n of nodeStore.list()) {
+      const k = nodeStateKey(n.id);
+      if (!s.states.has(n.id) && readRaw(k) != null) removeKey(k);
+    }
+    for (const [id, raw] of s.states) writeRaw(nodeStateKey(id), raw);
+    nodeStore.replace(s.nodes);
+    edgeStore.replace(s.edges);
+    rebuildNodes();
+    if (reopen) nodeMap.get(reopen)?.openPanel();
+  };
+
+  const sameRows = <T,>(a: T[], b: T[]) =>
+    a.length === b.length && a.every((x, i) => x === b[i]);
+
+  const history = createHistory<TreeSnapshot>({
+    capture: captureTree,
+    restore: restoreTree,
+    same: (a, b) =>
+      sameRows(a.nodes, b.nodes) &&
+      sameRows(a.edges, b.edges) &&
+      a.states.size === b.states.size &&
+      [...a.states].every(([id, raw]) => b.states.get(id) === raw),
+  });
 
   // Edge-mode toggle: W=linear, Q=curvy
   let edgeMode: EdgeKind | null = null;
@@ -219,30 +598,235 @@ function createEdgeStore() {
   };
 
   window.addEventListener("keydown", (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
     if (e.repeat) return;
     const k = e.key.toLowerCase();
     if (k === "w") setEdgeMode(edgeMode === "linear" ? null : "linear");
     if (k === "q") setEdgeMode(edgeMode === "curvy" ? null : "curvy");
+    if (k === "m" && !e.ctrlKey && !e.metaKey)
+      minimap.visible = !minimap.visible;
+    if (k === "d" && !e.ctrlKey && !e.metaKey)
+      dashboard.visible = !dashboard.visible;
   });
 
+  /* ───────────── Prerequisite unlocking ───────────── */
+  const statusOf = (id: string) => nodeMap.get(id)?.status;
+  const titleOf = (id: string) => nodeMap.get(id)?.meta.title || id;
+  const applyPrerequisites = (id: string, met: boolean) => {
+    const n = nodeMap.get(id);
+    if (!n || !n.setPrerequisitesMet(met)) return false;
+    nodeStore.setStatus(id, n.status);
+    nodesChanged();
+    return true;
+  };
+
+  // full pass after structural changes (load, edge added, node removed)
+  function syncStatuses() {
+    evaluateAll(
+      [...nodeMap.keys()],
+      edgeStore.list(),
+      statusOf,
+      applyPrerequisites,
+    );
+  }
+
+  // Node tooltip: what unlocks it, by relation; ✓ marks learned parents.
+  function prereqLines(id: string): string[] {
+    const s = summarizePrerequisites(id, edgeStore.list(), statusOf);
+    const name = (p: { id: string; met: boolean }) =>
+      `${titleOf(p.id)}${p.met ? " ✓" : ""}`;
+    const lines: string[] = [];
+    if (s.requires.length)
+      lines.push(`Requires: ${s.requires.map(name).join(", ")}`);
+    for (const g of s.anyOf)
+      lines.push(
+        `Any one of: ${g.ids.map(titleOf).join(" / ")}${g.met ? " ✓" : ""}`,
+      );
+    if (s.recommended.length)
+      lines.push(`Recommended: ${s.recommended.map(name).join(", ")}`);
+    return lines;
+  }
+
+  // Curvy edges steer around the live node positions.
+  const edgeContext: EdgeContext = {
+    trunkX: TRUNK_X,
+    obstacles: () => uiNodes,
+  };
+
   function rebuildEdges() {
     edgesContainer.removeChildren();
     uiEdges.forEach((e) => e.destroy());
     uiEdges = [];
 
     const list = edgeStore.list();
+    let dangling = 0;
     for (const e of list) {
       const from = nodeMap.get(e.from);
       const to = nodeMap.get(e.to);
-      if (!from || !to) continue;
+      if (!from || !to) {
+        dangling++;
+        continue;
+      }
       const kind: EdgeKind = e.kind ?? "curvy";
-      const edge = new UIEdge(from, to, kind);
+      const edge = new UIEdge(
+        from,
+        to,
+        kind,
+        undefined,
+        e.style,
+        edgeContext,
+        e.relation,
+      );
+      edge.container.on("pointertap", () => {
+        if (panned || edgeMode) return;
+        selectEdge(e.from, e.to);
+      });
       edgesContainer.addChild(edge.container);
       uiEdges.push(edge);
     }
+    if (dangling) log(`skipped ${dangling} edge(s) to missing nodes`);
+    nodesChanged();
+
+    // keep the selection across rebuilds (e.g. while a node is dragged)
+    const sel = selectedUIEdge();
+    if (sel) {
+      sel.setSelected(true);
+      placeEdgeBar();
+    } else if (selectedEdge) clearEdgeSelection();
+  }
+
+  // Positions changed but not the graph: redraw only what touches `ids`.
+  function nodesMoved(ids: Iterable<string>) {
+    const moved = new Set(ids);
+    const touched = uiEdges.filter(
+      (e) => moved.has(e.fromId) || moved.has(e.toId),
+    );
+    for (const e of touched) e.update();
+    if (settings.flows) flows?.update(touched.map(flowSpec));
+    if (plan?.steps.some((id) => moved.has(id))) drawGoal();
+    placeEdgeBar();
+    minimap.invalidate();
+  }
+
+  /* ───────────── Edge selection (click an edge) ───────────── */
+  let selectedEdge: { from: string; to: string } | null = null;
+  let edgeBar: ActionBar | null = null;
+
+  function selectedUIEdge() {
+    const sel = selectedEdge;
+    if (!sel) return undefined;
+    return uiEdges.find((e) => e.fromId === sel.from && e.toId === sel.to);
+  }
+
+  function clearEdgeSelection() {
+    selectedEdge = null;
+    edgeBar?.close();
+    edgeBar = null;
+    for (const e of uiEdges) e.setSelected(false);
+  }
+
+  function placeEdgeBar() {
+    const edge = selectedUIEdge();
+    if (!edge || !edgeBar) return;
+    const p = treeContainer.toGlobal(edge.midpoint());
+    edgeBar.moveTo(p.x, p.y);
+  }
+
+  function selectEdge(from: string, to: string) {
+    clearEdgeSelection();
+    const edge = uiEdges.find((e) => e.fromId === from && e.toId === to);
+    if (!edge) return;
+    selectedEdge = { from, to };
+    edge.setSelected(true);
+    edgeBar = openActionBar({
+      uiLayer,
+      at: treeContainer.toGlobal(edge.midpoint()),
+      label: `${from} → ${to}`,
+      actions: [
+        { id: "relation", label: `Type: ${edge.relation}` },
+        ...(edge.relation === "any-of"
+          ? [{ id: "group", label: `Group: ${groupOf(from, to)}` }]
+          : []),
+        { id: "reverse", label: "Reverse" },
+        { id: "kind", label: `Route: ${edge.kind}` },
+        { id: "marker", label: `Marker: ${edge.marker}` },
+        { id: "delete", label: "Delete" },
+      ],
+      onAction: (id) => editSelectedEdge(id),
+    });
+  }
+
+  const groupOf = (from: string, to: string) =>
+    edgeStore.list().find((e) => e.from === from && e.to === to)?.group ??
+    ANY_OF_GROUPS[0];
+
+  function editSelectedEdge(action: string) {
+    const sel = selectedEdge;
+    const edge = selectedUIEdge();
+    if (!sel || !edge) return;
+    const { from, to } = sel;
+
+    if (action === "delete") {
+      clearEdgeSelection();
+      history.transact("delete edge", () => {
+        edgeStore.remove(from, to);
+        rebuildEdges();
+        syncStatuses();
+      });
+    } else if (action === "reverse") {
+      const res = history.transact("reverse edge", () => {
+        const r = edgeStore.reverse(from, to);
+        if (r.ok) {
+          rebuildEdges();
+          syncStatuses();
+        }
+        return r;
+      });
+      if (!res.ok) showToast(app, uiLayer, res.reason, "warn");
+      else selectEdge(to, from);
+    } else if (action === "kind") {
+      const kind = nextOf(EDGE_KINDS, edge.kind);
+      history.transact(`make edge ${kind}`, () => {
+        edgeStore.setKind(from, to, kind);
+        rebuildEdges();
+      });
+      selectEdge(from, to);
+    } else if (action === "relation" || action === "group") {
+      const relation =
+        action === "relation"
+          ? nextOf(EDGE_RELATIONS, edge.relation)
+          : edge.relation;
+      const group =
+        action === "group"
+          ? nextOf(ANY_OF_GROUPS, groupOf(from, to))
+          : groupOf(from, to);
+      history.transact(`edge ${relation}`, () => {
+        edgeStore.setRelation(
+          from,
+          to,
+          relation,
+          group === ANY_OF_GROUPS[0] ? undefined : group,
+        );
+        rebuildEdges();
+        syncStatuses();
+      });
+      selectEdge(from, to);
+    } else if (action === "marker") {
+      const next = nextOf(EDGE_MARKERS, edge.marker);
+      history.transact(`edge marker ${next}`, () => {
+        // "none" is the default, so it isn't stored
+        edgeStore.setStyle(from, to, {
+          marker: next === "none" ? undefined : next,
+        });
+        rebuildEdges();
+      });
+      selectEdge(from, to);
+    }
   }
 
   function rebuildNodes() {
+    dropLayoutPreview(); // the new nodes start from the stored positions
     // Clean overlays from existing instances before nuking
     for (const n of uiNodes) n.dispose?.();
 
@@ -257,23 +841,69 @@ function createEdgeStore() {
         row.status ?? NodeStatus.Locked,
         row.id,
       );
+      n.setPinned(!!row.pinned);
 
       n.enableObjectivesUI(app, treeContainer, uiLayer, {
-        onMove: () => rebuildEdges(),
+        onMove: (id, x, y) => {
+          if (inGroup(id)) {
+            dragGroup(id, x, y);
+            nodesMoved(selection);
+          } else nodesMoved([id]);
+        },
         onDrop: (id, x, y) => {
-          nodeStore.update(id, x, y);
-          rebuildEdges();
+          if (inGroup(id)) {
+            const placement: Placement = new Map(
+              selectedNodes().map((m) => [m.id, { x: m.x, y: m.y }]),
+            );
+            history.transact(`move ${placement.size} nodes`, () =>
+              nodeStore.moveMany(placement),
+            );
+          } else
+            history.transact("move node", () => nodeStore.update(id, x, y));
+          guidesLayer.clear();
+          // curvy edges anywhere may now swerve around the dropped node
+          nodesMoved(nodeMap.keys());
+          placeGroupBar();
         },
-        onClick: (id) => {
-          if (!edgeMode) return false;
+        snap: snapDrag,
+        prereqLines: (id) => prereqLines(id),
+        onClick: (id, mods) => {
+          if (panned) return true; // the press was the start of a pan
+          clearEdgeSelection();
+          if (!edgeMode && mods.shiftKey) {
+            toggleSelected(id);
+            return true;
+          }
+          if (!edgeMode) {
+            clearSelection();
+            return false;
+          }
           log("edgeMode click", { id, lastClickedId, edgeMode });
           if (lastClickedId && lastClickedId !== id) {
-            edgeStore.add(lastClickedId, id, edgeMode);
+            const from = lastClickedId;
+            const kind = edgeMode;
+            const res = history.transact("add edge", () => {
+              const r = edgeStore.add(from, id, kind);
+              if (r.ok) syncStatuses();
+              return r;
+            });
+            if (!res.ok) {
+              showToast(app, uiLayer, res.reason, "warn");
+              return true;
+            }
             rebuildEdges();
           }
           lastClickedId = id;
           return true;
         },
+        onStatusChange: (id, status) => {
+          nodeStore.setStatus(id, status);
+          nodesChanged();
+          propagateFrom([id], edgeStore.list(), statusOf, applyPrerequisites);
+        },
+        onEdit: (id) => void editNode(id),
+        onChange: () => nodesChanged(),
+        transact: history.transact,
       });
 
       nodesContainer.addChild(n.container);
@@ -282,21 +912,1031 @@ function createEdgeStore() {
     });
 
     rebuildEdges();
+    syncStatuses();
+    setSelection([...selection]); // re-highlight, dropping removed ids
+  }
+
+  /* ───────────── Multi-selection (shift-click, shift-drag) ───────────── */
+  const selection = new Set<string>();
+  let groupBar: ActionBar | null = null;
+
+  const selectedNodes = () => uiNodes.filter((n) => selection.has(n.id));
+  const inGroup = (id: string) => selection.size > 1 && selection.has(id);
+
+  function setSelection(ids: Iterable<string>) {
+    const next = new Set([...ids].filter((id) => nodeMap.has(id)));
+    selection.clear();
+    for (const id of next) selection.add(id);
+    for (const n of uiNodes) n.setSelected(selection.has(n.id));
+    refreshGroupBar();
+  }
+
+  function toggleSelected(id: string) {
+    const next = new Set(selection);
+    if (!next.delete(id)) next.add(id);
+    setSelection(next);
+  }
+
+  function clearSelection() {
+    if (selection.size) setSelection([]);
+  }
+
+  function groupBarAnchor() {
+    const r = boundsOf(selectedNodes(), extentOf);
+    return r && treeContainer.toGlobal({ x: r.x + r.w / 2, y: r.y + r.h });
+  }
+
+  function placeGroupBar() {
+    const at = groupBarAnchor();
+    if (groupBar && at) groupBar.moveTo(at.x, at.y);
+  }
+
+  function refreshGroupBar() {
+    groupBar?.close();
+    groupBar = null;
+    const at = groupBarAnchor();
+    if (selection.size < 2 || !at) return;
+    groupBar = openActionBar({
+      uiLayer,
+      at,
+      label: `${selection.size} nodes selected`,
+      actions: [
+        { id: "align-left", label: "Align left" },
+        { id: "align-center", label: "Align center" },
+        { id: "distribute", label: "Distribute" },
+        { id: "learned", label: "Mark learned" },
+        { id: "reset", label: "Reset progress" },
+        { id: "delete", label: "Delete" },
+      ],
+      onAction: (id) => groupAction(id),
+    });
+  }
+
+  // Other members follow the dragged node by its offset from its saved row.
+  function dragGroup(id: string, x: number, y: number) {
+    const origin = nodeStore.get(id);
+    if (!origin) return;
+    const dx = x - origin.x;
+    const dy = y - origin.y;
+    for (const row of nodeStore.list()) {
+      if (row.id !== id && selection.has(row.id))
+        nodeMap.get(row.id)?.moveTo(row.x + dx, row.y + dy);
+    }
+  }
+
+  function deleteNodes(ids: string[]) {
+    if (!ids.length) return;
+    const label =
+      ids.length === 1 ? "delete node" : `delete ${ids.length} nodes`;
+    history.transact(label, () => {
+      for (const id of ids) {
+        // clean overlays for the node before we drop its data
+        nodeMap.get(id)?.dispose?.();
+        removeKey(nodeStateKey(id));
+      }
+      nodeStore.removeMany(ids);
+      // also remove edges touching these nodes
+      edgeStore.removeWithNodes(ids);
+      rebuildNodes();
+    });
+    // ids get reused (nextId is max + 1): a stale goal would latch onto a new node
+    if (settings.goal && ids.includes(settings.goal)) setGoal(null);
+  }
+
+  function groupAction(action: string) {
+    const nodes = selectedNodes();
+    if (action === "delete") {
+      deleteNodes(nodes.map((n) => n.id));
+    } else if (action === "learned" || action === "reset") {
+      const done = action === "learned";
+      const changed = history.transact(
+        done ? "mark group learned" : "reset group progress",
+        () => nodes.filter((n) => n.setAllObjectivesDone(done)).length,
+      );
+      if (done && changed < nodes.length)
+        showToast(
+          app,
+          uiLayer,
+          `${nodes.length - changed} node(s) unchanged (no objectives, locked or already done)`,
+        );
+    } else {
+      const placement = alignNodes(nodes, action as AlignMode);
+      history.transact(action.replace("-", " "), () => {
+        nodeStore.moveMany(placement);
+        for (const [id, p] of placement) nodeMap.get(id)?.moveTo(p.x, p.y);
+        nodesMoved(placement.keys());
+      });
+      placeGroupBar();
+    }
+  }
+
+  // Shift turns a background drag into a selection band instead of a pan.
+  const holdShift = (down: boolean) => {
+    if (down) treeContainer.plugins.pause("drag");
+    else treeContainer.plugins.resume("drag");
+  };
+  window.addEventListener("keydown", (e) => {
+    if (e.key === "Shift") holdShift(true);
+  });
+  window.addEventListener("keyup", (e) => {
+    if (e.key === "Shift") holdShift(false);
+  });
+  window.addEventListener("blur", () => holdShift(false));
+
+  treeContainer.on("pointerdown", (e) => {
+    if (e.shiftKey && e.target === treeContainer) startBand(e.global);
+  });
+
+  function startBand(start: { x: number; y: number }) {
+    const from = { x: start.x, y: start.y };
+    let to = from;
+    const band = new Graphics();
+    band.zIndex = 9_000;
+    uiLayer.addChild(band);
+
+    const move = (ev: PointerEvent) => {
+      const r = app.canvas.getBoundingClientRect();
+      to = { x: ev.clientX - r.left, y: ev.clientY - r.top };
+      band
+        .clear()
+        .rect(
+          Math.min(from.x, to.x),
+          Math.min(from.y, to.y),
+          Math.abs(to.x - from.x),
+          Math.abs(to.y - from.y),
+        )
+        .fill({ color: 0xfff1c4, alpha: 0.08 })
+        .stroke({ color: 0xfff1c4, width: 1, alpha: 0.9 });
+    };
+    const up = () => {
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", up);
+      uiLayer.removeChild(band);
+      band.destroy();
+
+      const a = treeContainer.toLocal(from);
+      const b = treeContainer.toLocal(to);
+      const x0 = Math.min(a.x, b.x),
+        x1 = Math.max(a.x, b.x);
+      const y0 = Math.min(a.y, b.y),
+        y1 = Math.max(a.y, b.y);
+      const hit = uiNodes.filter(
+        (n) => n.x >= x0 && n.x <= x1 && n.y >= y0 && n.y <= y1,
+      );
+      // the band adds to the selection, like shift-click
+      setSelection([...selection, ...hit.map((n) => n.id)]);
+    };
+    window.addEventListener("pointermove", move, { passive: true });
+    window.addEventListener("pointerup", up, { passive: true });
+  }
+
+  /* ───────────── Snapping (grid g, guides while dragging) ───────────── */
+  const settings = loadSettings();
+
+  function drawGrid() {
+    gridLayer.clear();
+    if (!settings.grid) return;
+    const step = settings.gridPitch;
+    for (let x = step; x < DESIGN_W; x += step)
+      gridLayer.moveTo(x, 0).lineTo(x, DESIGN_H);
+    for (let y = step; y < DESIGN_H; y += step)
+      gridLayer.moveTo(0, y).lineTo(DESIGN_W, y);
+    gridLayer.stroke({ color: 0xffffff, width: 1, alpha: 0.12 });
+  }
+
+  function drawGuides(guides: Guide[]) {
+    guidesLayer.clear();
+    const width = 1.5 / treeContainer.scale.x;
+    for (const kind of ["align", "spacing"] as const) {
+      const color = kind === "align" ? 0xff5fa2 : 0x5fd3ff;
+      const some = guides.filter((g) => g.kind === kind);
+      for (const g of some) guidesLayer.moveTo(g.x1, g.y1).lineTo(g.x2, g.y2);
+      if (some.length) guidesLayer.stroke({ color, width, alpha: 0.9 });
+    }
+  }
+
+  // Pulls a dragged node onto the grid and its neighbours' lines; Alt skips it.
+  function snapDrag(id: string, x: number, y: number, free: boolean) {
+    if (free) {
+      guidesLayer.clear();
+      return { x, y };
+    }
+    const moving = inGroup(id) ? selection : new Set([id]);
+    const res = snapPoint(
+      { x, y },
+      uiNodes.filter((n) => !moving.has(n.id)),
+      {
+        grid: settings.grid ? settings.gridPitch : null,
+        threshold: SNAP_SCREEN_PX / treeContainer.scale.x,
+        band: extentOf({ id }) * 2,
+      },
+    );
+    drawGuides(res.guides);
+    return res;
+  }
+
+  window.addEventListener("keydown", (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key.toLowerCase() !== "g") return;
+    if (e.shiftKey) {
+      const i = GRID_PITCHES.indexOf(settings.gridPitch);
+      settings.gridPitch = GRID_PITCHES[(i + 1) % GRID_PITCHES.length];
+      settings.grid = true;
+    } else settings.grid = !settings.grid;
+    saveSettings(settings);
+    drawGrid();
+    showToast(
+      app,
+      uiLayer,
+      settings.grid ? `Grid ${settings.gridPitch}px` : "Grid off",
+    );
+  });
+  drawGrid();
+
+  /* ───────────── Auto layout (u / Shift+U, p pins) ───────────── */
+  type LayoutPreview = { label: string; from: Placement; to: Placement };
+  let layoutPreview: LayoutPreview | null = null;
+  let layoutBar: ActionBar | null = null;
+  let stopTween: (() => void) | null = null;
+
+  const ease = (k: number) =>
+    k < 0.5 ? 4 * k * k * k : 1 - Math.pow(-2 * k + 2, 3) / 2;
+
+  // Animates the UINodes only; the store is written when the preview is applied.
+  function tweenNodes(from: Placement, to: Placement) {
+    stopTween?.();
+    const start = performance.now();
+    const step = () => {
+      const k = Math.min(1, (performance.now() - start) / LAYOUT_MS);
+      const e = ease(k);
+      for (const [id, b] of to) {
+        const a = from.get(id);
+        if (a)
+          nodeMap.get(id)?.moveTo(a.x + (b.x - a.x) * e, a.y + (b.y - a.y) * e);
+      }
+      nodesMoved(to.keys());
+      if (k === 1) stopTween?.();
+    };
+    stopTween = () => {
+      app.ticker.remove(step);
+      stopTween = null;
+    };
+    app.ticker.add(step);
+  }
+
+  const livePositions = (ids: Iterable<string>): Placement =>
+    new Map(
+      [...ids].flatMap((id) => {
+        const n = nodeMap.get(id);
+        return n ? [[id, { x: n.x, y: n.y }] as const] : [];
+      }),
+    );
+
+  // The selection (or the node with an open panel) plus everything that needs it.
+  function layoutScope() {
+    const roots = selection.size
+      ? [...selection]
+      : uiNodes.filter((n) => n.panelOpen).map((n) => n.id);
+    if (!roots.length) return null;
+    const ids = new Set(roots);
+    const edges = edgeStore.list();
+    for (const id of ids)
+      for (const e of edges) if (e.from === id) ids.add(e.to);
+    return { roots: new Set(roots), ids };
+  }
+
+  function runLayout(mode: LayoutMode) {
+    if (layoutPreview) finishLayout(false);
+    const scope = layoutScope();
+    const rows = scope
+      ? nodeStore.list().filter((n) => scope.ids.has(n.id))
+      : nodeStore.list();
+    // a subtree grows from where its roots are now
+    const roots = scope ? rows.filter((n) => scope.roots.has(n.id)) : [];
+    const anchor = roots.length
+      ? {
+          x: roots.reduce((s, n) => s + n.x, 0) / roots.length,
+          y:
+            mode === "radial"
+              ? roots.reduce((s, n) => s + n.y, 0) / roots.length
+              : Math.max(...roots.map((n) => n.y)),
+        }
+      : undefined;
+    const sized = rows.map((n) => ({
+      ...n,
+      radius: nodeMap.get(n.id)?.radius,
+    }));
+    const to = autoLayout(sized, edgeStore.list(), {
+      mode,
+      area: {
+        x: LAYOUT_MARGIN,
+        y: LAYOUT_MARGIN,
+        w: DESIGN_W - LAYOUT_MARGIN * 2,
+        h: DESIGN_H - LAYOUT_MARGIN * 2,
+      },
+      anchor,
+    });
+    if (!to.size) {
+      showToast(app, uiLayer, "Nothing to lay out (all pinned?)");
+      return;
+    }
+
+    for (const n of uiNodes) n.closePanel();
+    const what = scope ? "subtree" : "tree";
+    layoutPreview = {
+      label: `${mode} layout of ${what}`,
+      from: livePositions(to.keys()),
+      to,
+    };
+    tweenNodes(layoutPreview.from, to);
+    const r = boundsOf(
+      [...to].map(([id, p]) => ({ id, ...p })),
+      extentOf,
+    );
+    if (r) fitRect(treeContainer, r);
+
+    layoutBar = openActionBar({
+      uiLayer,
+      at: { x: app.screen.width / 2, y: 24 },
+      label: `Preview: ${layoutPreview.label}, ${to.size} nodes (Enter / Esc)`,
+      actions: [
+        { id: "apply", label: "Apply" },
+        { id: "revert", label: "Revert" },
+      ],
+      onAction: (id) => finishLayout(id === "apply"),
+    });
+  }
+
+  function dropLayoutPreview() {
+    stopTween?.();
+    layoutBar?.close();
+    layoutBar = null;
+    layoutPreview = null;
+  }
+
+  function finishLayout(apply: boolean) {
+    const p = layoutPreview;
+    if (!p) return;
+    const now = livePositions(p.to.keys());
+    dropLayoutPreview();
+    if (apply) {
+      for (const [id, q] of p.to) nodeMap.get(id)?.moveTo(q.x, q.y);
+      history.transact(p.label, () => nodeStore.moveMany(p.to));
+      nodesMoved(p.to.keys());
+      placeGroupBar();
+    } else tweenNodes(now, p.from);
+  }
+
+  function togglePinned(ids: string[]) {
+    if (!ids.length) return;
+    const pin = ids.some((id) => !nodeStore.get(id)?.pinned);
+    history.transact(pin ? "pin nodes" : "unpin nodes", () =>
+      nodeStore.setPinned(ids, pin),
+    );
+    for (const id of ids) nodeMap.get(id)?.setPinned(pin);
+    showToast(
+      app,
+      uiLayer,
+      `${pin ? "Pinned" : "Unpinned"} ${ids.length} node(s)`,
+    );
+  }
+
+  window.addEventListener("keydown", (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    const k = e.key.toLowerCase();
+    if (layoutPreview && (k === "enter" || k === "escape")) {
+      e.stopImmediatePropagation(); // Esc shouldn't also drop the selection
+      finishLayout(k === "enter");
+    } else if (k === "u") runLayout(e.shiftKey ? "radial" : "layered");
+    else if (k === "p") {
+      const near = nodeStore.nearest(cursorDesign.x, cursorDesign.y, 40);
+      togglePinned(selection.size ? [...selection] : near ? [near] : []);
+    }
+  });
+
+  /* ───────────── Search & filters (/) ───────────── */
+  let nodeFilter: NodeFilter | null = null;
+  let dimmed = new Set<string>(); // node ids failing the active filters
+  let derivedQueued = false;
+
+  const searchEntries = (): SearchEntry[] =>
+    uiNodes.map((n) => ({ id: n.id, status: n.status, ...n.meta }));
+
+  // Dims nodes (and edges touching them) that fail the active filters.
+  function applyFilter() {
+    const f = searchPanel.filtering ? nodeFilter : null;
+    const dim = new Set(
+      f
+        ? searchEntries()
+            .filter((e) => !matchesFilter(e, f))
+            .map((e) => e.id)
+        : [],
+    );
+    const was = dimmed;
+    dimmed = dim;
+    for (const n of uiNodes)
+      n.container.alpha = dim.has(n.id) ? DIMMED_ALPHA : 1;
+    for (const e of uiEdges)
+      e.container.alpha =
+        dim.has(e.fromId) || dim.has(e.toId) ? DIMMED_ALPHA : 1;
+    // with flows on the strokes are ghosts: the tubes have to dim too
+    const flipped = (id: string) => was.has(id) !== dim.has(id);
+    if (settings.flows)
+      flows?.update(
+        uiEdges
+          .filter((e) => flipped(e.fromId) || flipped(e.toId))
+          .map(flowSpec),
+      );
+    searchPanel.refresh();
+  }
+
+  // Node state, statuses or edges changed. Statuses change a node at a time,
+  // so filters and the goal plan re-run once they've settled.
+  function nodesChanged() {
+    minimap.invalidate();
+    dashboard.invalidate();
+    if (derivedQueued) return;
+    derivedQueued = true;
+    queueMicrotask(() => {
+      derivedQueued = false;
+      applyFilter();
+      updateGoal();
+      syncFlows();
+    });
+  }
+
+  function pickNode(id: string) {
+    const n = nodeMap.get(id);
+    if (!n) return;
+    clearEdgeSelection();
+    setSelection([id]);
+    const half = PICK_VIEW / 2;
+    fitRect(treeContainer, {
+      x: n.x - half,
+      y: n.y - half,
+      w: PICK_VIEW,
+      h: PICK_VIEW,
+    });
   }
 
+  const searchPanel = new SearchPanel(searchEntries, pickNode, (f) => {
+    nodeFilter = f;
+    applyFilter();
+  });
+
+  window.addEventListener("keydown", (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
+    if (e.key !== "/" || e.ctrlKey || e.metaKey || e.altKey) return;
+    e.preventDefault(); // don't type the "/" into the box
+    searchPanel.open();
+  });
+
+  /* ───────────── Goal & study plan (t) ───────────── */
+  let goalBar: ActionBar | null = null;
+  let goalBarKey = "";
+  let plan: StudyPlan | null = null;
+
+  function setGoal(id: string | null) {
+    settings.goal = id;
+    saveSettings(settings);
+    updateGoal();
+    if (id) showToast(app, uiLayer, `Goal: ${titleOf(id)}`);
+  }
+
+  // Re-plans from the live nodes; cheap enough to run after every change.
+  function updateGoal() {
+    const goal = settings.goal;
+    plan =
+      goal && nodeMap.has(goal)
+        ? planGoal(goal, edgeStore.list(), (id) => {
+            const n = nodeMap.get(id);
+            if (!n) return undefined;
+            const { done, total } = n.progress;
+            return {
+              status: n.status,
+              difficulty: n.meta.difficulty,
+              remaining: total - done,
+            };
+          })
+        : null;
+    drawGoal();
+
+    const label = !plan
+      ? ""
+      : plan.steps.length
+        ? `Goal: ${titleOf(plan.goal)} · ${plan.steps.length} node(s) · ` +
+          `difficulty ${plan.difficulty} · ${plan.objectives} objective(s) left`
+        : `Goal reached: ${titleOf(plan.goal)}`;
+    const next = plan?.next;
+    const key = `${label}|${next}`;
+    if (key === goalBarKey) return;
+    goalBarKey = key;
+    goalBar?.close();
+    goalBar = null;
+    if (!plan) return;
+    goalBar = openActionBar({
+      uiLayer,
+      at: { x: app.screen.width / 2, y: app.screen.height - 96 },
+      label,
+      actions: [
+        ...(next ? [{ id: "next", label: `Next: ${titleOf(next)}` }] : []),
+        { id: "goal", label: "Show goal" },
+        { id: "clear", label: "Clear goal" },
+      ],
+      onAction: (id) => {
+        if (id === "next" && next) pickNode(next);
+        else if (id === "goal" && plan) pickNode(plan.goal);
+        else if (id === "clear") setGoal(null);
+      },
+    });
+  }
+
+  const goalPath = new Graphics();
+  const goalNums: Text[] = []; // reused across redraws, extras hidden
+  goalLayer.addChild(goalPath);
+
+  // Gold path along the plan's edges, numbered rings in study order.
+  function drawGoal() {
+    const g = goalPath.clear();
+    for (const t of goalNums) t.visible = false;
+    if (!plan || !plan.steps.length) return;
+    const onPath = new Set(plan.steps);
+
+    for (const e of uiEdges) {
+      if (!onPath.has(e.fromId) || !onPath.has(e.toId)) continue;
+      const p0 = e.pointAt(0);
+      g.moveTo(p0.x, p0.y);
+      for (let i = 1; i <= 20; i++) {
+        const p = e.pointAt(i / 20);
+        g.lineTo(p.x, p.y);
+      }
+    }
+    g.stroke({ color: GOAL_COLOR, width: 14, alpha: 0.35, cap: "round" });
+
+    plan.steps.forEach((id, i) => {
+      const n = nodeMap.get(id);
+      if (!n) return;
+      const isGoal = id === plan!.goal;
+      const ring = n.radius + NODE_RING_GAP;
+      g.circle(n.x, n.y, ring).stroke({
+        color: id === plan!.next ? 0xffffff : GOAL_COLOR,
+        width: isGoal ? 6 : 3,
+        alpha: 0.9,
+      });
+      if (isGoal) return;
+      const num = (goalNums[i] ??= goalLayer.addChild(
+        new Text({
+          style: {
+            fill: GOAL_COLOR,
+            fontFamily: "Tahoma, Segoe UI, Noto Sans, system-ui, sans-serif",
+            fontSize: 20,
+            fontWeight: "700",
+            stroke: { color: 0x000000, width: 4 },
+          },
+        }),
+      ));
+      num.text = String(i + 1);
+      num.anchor.set(0.5, 1);
+      num.position.set(n.x, n.y - ring - 4);
+      num.visible = true;
+    });
+  }
+
+  window.addEventListener("resize", () => {
+    goalBarKey = ""; // re-anchor the bar
+    updateGoal();
+  });
+
+  window.addEventListener("keydown", (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key.toLowerCase() !== "t") return;
+    const id =
+      selection.size === 1
+        ? [...selection][0]
+        : nodeStore.nearest(cursorDesign.x, cursorDesign.y, 40);
+    if (id) setGoal(id === settings.goal ? null : id);
+  });
+
+  /* ───────────── Flow edges (f) ───────────── */
+  let flows: WaterFlowOverlay | null = null; // created on first use
+
+  function flowSpec(e: UIEdge): FlowSpec {
+    const { start, ctrl, bends, end } = e.geometry();
+    const learned = (id: string) => statusOf(id) === NodeStatus.Learned;
+    const base = !learned(e.fromId)
+      ? FLOW_IDLE
+      : learned(e.toId)
+        ? FLOW_LEARNED
+        : FLOW_FEEDING;
+    // recommended edges never block, so their tubes stay faint
+    let opts =
+      e.relation === "recommended"
+        ? { ...base, opacity: RECOMMENDED_FLOW_OPACITY }
+        : base;
+    if (dimmed.has(e.fromId) || dimmed.has(e.toId))
+      opts = { ...opts, opacity: (opts.opacity ?? 1) * DIMMED_ALPHA };
+    return { id: e.id, from: start, to: end, ctrl, via: bends, opts };
+  }
+
+  // One tube per edge along its drawn path; plain strokes stay for clicks.
+  function syncFlows() {
+    for (const e of uiEdges) e.setGhost(settings.flows);
+    if (!settings.flows) {
+      if (flows) flows.visible = false;
+      return;
+    }
+    flows ??= new WaterFlowOverlay({
+      pixiApp: app,
+      treeContainer,
+      layer: flowLayer,
+    });
+    flows.visible = true;
+    flows.sync(uiEdges.map(flowSpec));
+  }
+
+  window.addEventListener("keydown", (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key.toLowerCase() !== "f") return;
+    settings.flows = !settings.flows;
+    saveSettings(settings);
+    syncFlows();
+    showToast(
+      app,
+      uiLayer,
+      settings.flows ? "Flow edges on" : "Flow edges off",
+    );
+  });
+
+  /* ───────────── Themes (c) ───────────── */
+  const themeState = loadThemes();
+  applyTheme(findTheme(themeState, themeState.active)); // before any node is drawn
+  let restyleQueued = false;
+
+  // Colour pickers fire on every drag step: redraw the nodes once a frame and
+  // store the theme only when the step is final (`persist`).
+  function setTheme(theme: TreeTheme, persist = true) {
+    if (!isPreset(theme.id))
+      themeState.custom = [
+        ...themeState.custom.filter((t) => t.id !== theme.id),
+        theme,
+      ];
+    themeState.active = theme.id;
+    if (persist) saveThemes(themeState);
+    applyTheme(theme);
+    if (restyleQueued) return;
+    restyleQueued = true;
+    requestAnimationFrame(() => {
+      restyleQueued = false;
+      for (const n of uiNodes) n.restyle();
+      releaseGradients(Object.values(statusToTheme));
+      nodesChanged();
+    });
+  }
+
+  const themeEditor = new ThemeEditor(
+    app,
+    uiLayer,
+    () => ({
+      list: [...PRESET_THEMES, ...themeState.custom],
+      active: findTheme(themeState, themeState.active),
+    }),
+    setTheme,
+  );
+
+  window.addEventListener("keydown", (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key.toLowerCase() !== "c") return;
+    if (themeEditor.isOpen) themeEditor.close();
+    else themeEditor.open();
+  });
+
   rebuildNodes();
 
+  // Icons nothing refers to any more (deleted nodes, replaced icons). Skipped
+  // if any node state is unreadable, as it may hold a reference.
+  const savedStates = nodeStore
+    .list()
+    .map((n) => readJSON<NodeState>(nodeStateKey(n.id)));
+  if (savedStates.every((r) => r.ok))
+    pruneIcons(
+      savedStates.flatMap((r) => (r.ok && r.value?.icon ? [r.value.icon] : [])),
+    );
+
+  if (migration.applied.length)
+    showToast(app, uiLayer, `Saved data upgraded to v${migration.to}`);
+  const lockReason = storageLocked();
+  if (lockReason) {
+    void openReportPanel({
+      app,
+      uiLayer,
+      title: "Saved data is read-only",
+      sections: [
+        {
+          heading: "Couldn't load",
+          lines: migration.errors.length ? migration.errors : [lockReason],
+        },
+        {
+          heading: "Until this is fixed",
+          lines: [
+            "Nothing is saved this session, so the stored data stays as it was.",
+          ],
+        },
+      ],
+    });
+  }
+
+  /* ───────────── Tree validation (v) ───────────── */
+  async function validateTree() {
+    const ids = nodeStore.list().map((n) => n.id);
+    const report = validateGraph(ids, edgeStore.list());
+    const choice = await openReportPanel({
+      app,
+      uiLayer,
+      title: "Validate tree",
+      emptyText: "No cycles, mirrored or dangling edges.",
+      sections: [
+        {
+          heading: "Cycles",
+          lines: report.cycles.map((c) => c.join(" → ")),
+        },
+        {
+          heading: "Mirrored edges",
+          lines: report.mirrored.map(([a, b]) => `${a} ⇄ ${b}`),
+        },
+        {
+          heading: "Duplicate edges",
+          lines: report.duplicates.map((e) => `${e.from} → ${e.to}`),
+        },
+        {
+          heading: "Edges to missing nodes",
+          lines: report.dangling.map((e) => `${e.from} → ${e.to}`),
+        },
+      ],
+      actions: report.dangling.length
+        ? [{ id: "prune", label: "Remove missing" }]
+        : [],
+    });
+    if (choice === "prune") {
+      const n = history.transact("remove dangling edges", () =>
+        edgeStore.removeDangling(ids),
+      );
+      showToast(app, uiLayer, `Removed ${n} edge(s) to missing nodes`);
+    }
+  }
+
+  /* ───────────── JSON export / import (Ctrl+E / Ctrl+O) ───────────── */
+  function readNodeState(id: string): NodeState | null {
+    const r = readJSON<NodeState>(nodeStateKey(id));
+    return r.ok ? r.value : null;
+  }
+
+  function exportTree() {
+    const nodes = nodeStore.list();
+    const nodeState: Record<string, NodeState> = {};
+    const icons: Record<string, string> = {};
+    for (const n of nodes) {
+      const st = readNodeState(n.id);
+      if (st) nodeState[n.id] = st;
+      const image = st?.icon ? iconData(st.icon) : null;
+      if (st?.icon && image) icons[st.icon] = image;
+    }
+    const doc = buildTreeDocument(nodes, nodeState, edgeStore.list(), icons);
+    const blob = new Blob([JSON.stringify(doc, null, 2)], {
+      type: "application/json",
+    });
+    const a = document.createElement("a");
+    a.href = URL.createObjectURL(blob);
+    a.download = "virtual_life_tree-export.json";
+    a.click();
+    URL.revokeObjectURL(a.href);
+  }
+
+  function pickFile(accept: string): Promise<File | null> {
+    return new Promise((resolve) => {
+      const input = document.createElement("input");
+      input.type = "file";
+      input.accept = accept;
+      input.onchange = () => resolve(input.files?.[0] ?? null);
+      input.oncancel = () => resolve(null);
+      input.click();
+    });
+  }
+
+  function writeNodeStates(doc: TreeDocument) {
+    for (const n of doc.nodes) {
+      const st = doc.nodeState[n.id];
+      if (st) writeJSON(nodeStateKey(n.id), st);
+    }
+  }
+
+  async function importTree() {
+    const file = await pickFile(".json,application/json");
+    if (!file) return;
+
+    const { doc, errors, warnings } = parseTreeDocument(await file.text());
+    const choice = await openReportPanel({
+      app,
+      uiLayer,
+      title: doc
+        ? `Import ${file.name}: ${doc.nodes.length} nodes, ${doc.edges.length} edges`
+        : `Can't import ${file.name}`,
+      emptyText: "The file checks out.",
+      sections: [
+        { heading: "Errors", lines: errors },
+        { heading: "Warnings", lines: warnings },
+      ],
+      actions: doc
+        ? [
+            { id: "replace", label: "Replace tree" },
+            { id: "merge", label: "Merge into tree" },
+          ]
+        : [],
+      dismissLabel: doc ? "Cancel" : "OK",
+    });
+    if (!doc || !choice) return;
+
+    for (const n of uiNodes) n.closePanel();
+
+    // the file's icon ids are only labels: point nodes at what we stored
+    const iconIds = await importIcons(doc.icons);
+    let dropped = 0;
+    for (const st of Object.values(doc.nodeState)) {
+      if (!st.icon) continue;
+      const id = iconIds.get(st.icon);
+      if (id) st.icon = id;
+      else {
+        delete st.icon;
+        dropped++;
+      }
+    }
+    const lost = dropped ? `; ${dropped} unreadable node icon(s) dropped` : "";
+
+    history.transact(`import (${choice})`, () => {
+      if (choice === "replace") {
+        for (const n of nodeStore.list()) removeKey(nodeStateKey(n.id));
+        nodeStore.replace(doc.nodes);
+        edgeStore.replace(doc.edges);
+        writeNodeStates(doc);
+        setGoal(null); // the old goal id means nothing in the new tree
+        showToast(
+          app,
+          uiLayer,
+          `Replaced tree with ${doc.nodes.length} nodes${lost}`,
+        );
+      } else {
+        const current = nodeStore.list();
+        const { doc: merged, renamed } = remapForMerge(
+          doc,
+          current.map((n) => n.id),
+        );
+        nodeStore.replace([...current, ...merged.nodes]);
+        edgeStore.replace([...edgeStore.list(), ...merged.edges]);
+        writeNodeStates(merged);
+        showToast(
+          app,
+          uiLayer,
+          `Merged ${merged.nodes.length} nodes (${renamed.size} renumbered)${lost}`,
+        );
+      }
+      rebuildNodes();
+    });
+    log("import", { file: file.name, mode: choice });
+  }
+
+  /* ───────────── Camera ───────────── */
+  // A press that turns into a pan must not also count as a node tap.
+  let panned = false;
+  treeContainer.on("pointerdown", () => (panned = false));
+  treeContainer.on("drag-start", () => (panned = true));
+  // a plain tap on the background drops the edge and node selections
+  treeContainer.on("pointertap", (e) => {
+    if (e.target !== treeContainer || panned || e.shiftKey) return;
+    clearEdgeSelection();
+    clearSelection();
+  });
+
+  const followCamera = () => {
+    for (const n of uiNodes) n.followCamera();
+    placeEdgeBar();
+    placeGroupBar();
+  };
+  treeContainer.on("moved", followCamera);
+  treeContainer.on("zoomed", followCamera);
+
+  function fitTree() {
+    const r = boundsOf(nodeStore.list(), extentOf);
+    fitRect(treeContainer, r ?? { x: 0, y: 0, w: DESIGN_W, h: DESIGN_H });
+  }
+
+  // With no multi-selection, a node with an open panel counts as selected.
+  function fitSelection() {
+    const picked = selection.size
+      ? selectedNodes()
+      : uiNodes.filter((n) => n.panelOpen);
+    const r = boundsOf(picked, extentOf);
+    if (r) fitRect(treeContainer, r);
+    else showToast(app, uiLayer, "Nothing selected");
+  }
+
+  /* ───────────── Editing node metadata ───────────── */
+  async function editNode(id: string) {
+    const node = nodeMap.get(id);
+    if (!node) return;
+    const meta = await openCreateNodeDialog({
+      app,
+      uiLayer,
+      attachNear: treeContainer.toGlobal({ x: node.x, y: node.y }),
+      initial: node.meta,
+      submitLabel: "Save",
+    });
+    // the tree may have been rebuilt (undo, import…) while the dialog was open
+    const target = nodeMap.get(id);
+    if (!meta || !target) return;
+    const { archetype } = target.meta;
+    history.transact("edit node", () => target.applyMeta(meta));
+    // a new outline: its edges and tubes end somewhere else now
+    if (target.meta.archetype !== archetype) nodesMoved([id]);
+    nodesChanged();
+  }
+
+  /* ───────────── Node icons (o / Shift+O / paste) ───────────── */
+  // The selection, else the node under the cursor.
+  function iconTargets(): UINode[] {
+    const ids = selection.size
+      ? [...selection]
+      : [nodeStore.nearest(cursorDesign.x, cursorDesign.y, 40)];
+    return ids.flatMap((id) => {
+      const n = id ? nodeMap.get(id) : undefined;
+      return n ? [n] : [];
+    });
+  }
+
+  async function attachIcon(image: Blob, targets: UINode[]) {
+    let id: string;
+    try {
+      id = await storeIcon(image);
+    } catch (e) {
+      showToast(app, uiLayer, `Couldn't use that image: ${String(e)}`, "warn");
+      return;
+    }
+    const live = targets.filter((n) => nodeMap.get(n.id) === n);
+    history.transact("set icon", () => live.forEach((n) => n.setIcon(id)));
+  }
+
+  window.addEventListener("keydown", async (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
+    if (e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.key.toLowerCase() !== "o") return;
+    const targets = iconTargets();
+    if (!targets.length) {
+      showToast(app, uiLayer, "No node to give an icon");
+      return;
+    }
+    if (e.shiftKey) {
+      history.transact("remove icon", () =>
+        targets.forEach((n) => n.setIcon(null)),
+      );
+      return;
+    }
+    const file = await pickFile("image/*");
+    if (file) await attachIcon(file, targets);
+  });
+
+  // Ctrl+V with an image on the clipboard: same targets as "o"
+  window.addEventListener("paste", (e) => {
+    const el = document.activeElement as HTMLElement | null;
+    if (el && /INPUT|TEXTAREA|SELECT/.test(el.tagName)) return;
+    const item = [...(e.clipboardData?.items ?? [])].find((i) =>
+      i.type.startsWith("image/"),
+    );
+    const image = item?.getAsFile();
+    const targets = iconTargets();
+    if (!image || !targets.length) return;
+    e.preventDefault();
+    void attachIcon(image, targets);
+  });
+
   /* ───────────── Keyboard-driven placement (k/l) ───────────── */
   let cursorDesign = { x: DESIGN_W / 2, y: DESIGN_H / 2 };
   window.addEventListener("pointermove", (e: PointerEvent) => {
     const rect = app.canvas.getBoundingClientRect();
-    const sx = e.clientX - rect.left;
-    const sy = e.clientY - rect.top;
-    const s = treeContainer.scale.x;
-    cursorDesign = {
-      x: (sx - treeContainer.position.x) / s,
-      y: (sy - treeContainer.position.y) / s,
-    };
+    const p = treeContainer.toLocal({
+      x: e.clientX - rect.left,
+      y: e.clientY - rect.top,
+    });
+    cursorDesign = { x: p.x, y: p.y };
   });
 
   window.addEventListener("keydown", async (ev) => {
@@ -318,15 +1958,10 @@ function createEdgeStore() {
       });
       if (!meta) return;
 
-      const created = nodeStore.add(
-        cursorDesign.x,
-        cursorDesign.y,
-        NodeStatus.Available,
-      );
-
-      localStorage.setItem(
-        `${NODE_STATE_PREFIX}${created.id}`,
-        JSON.stringify({
+      const at = { ...cursorDesign };
+      const created = history.transact("create node", () => {
+        const row = nodeStore.add(at.x, at.y, NodeStatus.Available);
+        writeJSON(nodeStateKey(row.id), {
           status: NodeStatus.Available,
           objectives: meta.objectives.map((t) => ({
             id: Math.random().toString(36).slice(2),
@@ -335,51 +1970,73 @@ function createEdgeStore() {
           })),
           title: meta.title,
           difficulty: meta.difficulty,
-        }),
-      );
-
-      rebuildNodes();
+          archetype: meta.archetype,
+        });
+        rebuildNodes();
+        return row;
+      });
       const node = uiNodes.find((n) => n.id === created.id);
       node?.openPanel();
+    } else if (key === "i" && !ev.ctrlKey && !ev.metaKey) {
+      const id = nodeStore.nearest(cursorDesign.x, cursorDesign.y, 40);
+      if (id) await editNode(id);
     } else if (key === "l") {
-      const removedId = nodeStore.removeNearest(cursorDesign.x, cursorDesign.y, 40);
-      if (removedId) {
-        // clean overlays for the specific node before we drop data
-        const inst = uiNodes.find((n) => n.id === removedId);
-        inst?.dispose?.();
-
-        localStorage.removeItem(`${NODE_STATE_PREFIX}${removedId}`);
-        // also remove edges touching this node
-        const raw = localStorage.getItem(EDGES_KEY);
-        const edges = raw ? (JSON.parse(raw) as StoredEdge[]) : [];
-        const filtered = edges.filter((e) => e.from !== removedId && e.to !== removedId);
-        localStorage.setItem(EDGES_KEY, JSON.stringify(filtered));
-        rebuildNodes();
-      }
+      const id = nodeStore.nearest(cursorDesign.x, cursorDesign.y, 40);
+      if (id) deleteNodes([id]);
+    }
+
+    if (key === "v" && !ev.ctrlKey && !ev.metaKey) {
+      await validateTree();
+    }
+
+    // Selected edge: Delete/Backspace removes it, "r" reverses it
+    if (selectedEdge) {
+      if (key === "delete" || key === "backspace") editSelectedEdge("delete");
+      else if (key === "r" && !ev.ctrlKey && !ev.metaKey)
+        editSelectedEdge("reverse");
+      else if (key === "escape") clearEdgeSelection();
+    } else if (selection.size) {
+      if (key === "delete" || key === "backspace") deleteNodes([...selection]);
+      else if (key === "escape") clearSelection();
+    }
+    if ((ev.ctrlKey || ev.metaKey) && key === "a") {
+      ev.preventDefault();
+      setSelection(nodeMap.keys());
     }
 
+    // Camera: Shift+1 frames the whole tree, Shift+2 the selection
+    if (ev.shiftKey && ev.code === "Digit1") fitTree();
+    else if (ev.shiftKey && ev.code === "Digit2") fitSelection();
+
     // Utilities
     if ((ev.ctrlKey || ev.metaKey) && key === "c") {
       if (confirm("Clear ALL saved nodes & edges?")) {
-        const toWipe = nodeStore.list().map((n) => `${NODE_STATE_PREFIX}${n.id}`);
-        nodeStore.clear();
-        localStorage.setItem(EDGES_KEY, JSON.stringify([]));
-        toWipe.forEach((k) => localStorage.removeItem(k));
-        rebuildNodes();
+        history.transact("clear tree", () => {
+          const toWipe = nodeStore.list().map((n) => nodeStateKey(n.id));
+          nodeStore.clear();
+          edgeStore.clear();
+          toWipe.forEach((k) => removeKey(k));
+          rebuildNodes();
+        });
+        setGoal(null);
       }
+    } else if ((ev.ctrlKey || ev.metaKey) && (key === "z" || key === "y")) {
+      ev.preventDefault();
+      const redo = key === "y" || ev.shiftKey;
+      const label = redo ? history.redo() : history.undo();
+      showToast(
+        app,
+        uiLayer,
+        label
+          ? `${redo ? "Redo" : "Undo"}: ${label}`
+          : `Nothing to ${redo ? "redo" : "undo"}`,
+      );
     } else if ((ev.ctrlKey || ev.metaKey) && key === "e") {
-      const rows = nodeStore.list();
-      const csv =
-        "node_id,x,y\n" +
-        rows
-          .map((r) => `${r.id},${Math.round(r.x)},${Math.round(r.y)}`)
-          .join("\n");
-      const blob = new Blob([csv], { type: "text/csv" });
-      const a = document.createElement("a");
-      a.href = URL.createObjectURL(blob);
-      a.download = "virtual_life_nodes-export.csv";
-      a.click();
-      URL.revokeObjectURL(a.href);
+      ev.preventDefault();
+      exportTree();
+    } else if ((ev.ctrlKey || ev.metaKey) && key === "o") {
+      ev.preventDefault();
+      await importTree();
     }
   });
 })();
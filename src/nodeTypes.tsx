@@ -1,4 +1,12 @@
-import { deepTeal, brightAqua, burntOrange } from "./node_drawer";
+import {
+  deepTeal,
+  brightAqua,
+  burntOrange,
+  type NodeForm,
+  type NodeTheme,
+} from "./node_drawer";
+import type { EdgeKind, EdgeStyle } from "./UIEdge";
+import type { EdgeRelation } from "./graph";
 // ---------------------------------------------------------------------------
 // Map your three palettes to a logical status enum
 // ---------------------------------------------------------------------------
@@ -8,8 +16,74 @@ export enum NodeStatus {
   Learned = "learned",
 }
 
-export const statusToTheme = {
+/** The live palettes; `applyTheme` (themes.tsx) swaps them at runtime. */
+export const statusToTheme: Record<NodeStatus, NodeTheme> = {
   [NodeStatus.Locked]: deepTeal, // from themedNodes.ts
   [NodeStatus.Available]: brightAqua,
   [NodeStatus.Learned]: burntOrange,
 };
+
+/** How much a node matters, from a small step up to a capstone. */
+export type NodeArchetype =
+  | "minor"
+  | "standard"
+  | "notable"
+  | "milestone"
+  | "keystone";
+
+export type ArchetypeLook = NodeForm & { radius: number }; // design px, before the rim
+
+/** Size, outline and ring per archetype; "standard" is the original orb. */
+export const ARCHETYPES: Record<NodeArchetype, ArchetypeLook> = {
+  minor: { radius: 34, shape: "circle", ring: "single" },
+  standard: { radius: 48, shape: "circle", ring: "single" },
+  notable: { radius: 60, shape: "hexagon", ring: "double" },
+  milestone: { radius: 72, shape: "diamond", ring: "double" },
+  keystone: { radius: 76, shape: "octagon", ring: "frame" },
+};
+
+export const DEFAULT_ARCHETYPE: NodeArchetype = "standard";
+
+export const isArchetype = (v: unknown): v is NodeArchetype =>
+  typeof v === "string" && Object.keys(ARCHETYPES).includes(v);
+
+/** The 0–33 difficulty score as one of five levels (the level icons). */
+export function difficultyToLevel(d: number): number {
+  const v = Math.max(0, Math.min(33, Math.round(d)));
+  if (v <= 6) return 1;
+  if (v <= 14) return 2;
+  if (v <= 21) return 3;
+  if (v <= 27) return 4;
+  return 5;
+}
+
+// ---------------------------------------------------------------------------
+// Persisted shapes: the node list, per-node state and the edge list
+// ---------------------------------------------------------------------------
+export type Objective = { id: string; text: string; done: boolean };
+
+export type StoredNode = {
+  id: string;
+  x: number;
+  y: number;
+  status: NodeStatus;
+  pinned?: boolean; // auto layout leaves it where it is
+};
+export type StoredEdge = {
+  from: string;
+  to: string;
+  kind?: EdgeKind;
+  relation?: EdgeRelation; // missing means "requires"
+  group?: string; // any-of group id
+  style?: Partial<EdgeStyle>; // only what differs from the default look
+};
+
+/** What lives under `tol.node.v1.<id>`. */
+export type NodeState = {
+  status?: NodeStatus;
+  objectives?: Objective[];
+  title?: string;
+  difficulty?: number;
+  archetype?: NodeArchetype; // missing means "standard"
+  icon?: string; // id under `tol.icon.v1.<id>`
+};
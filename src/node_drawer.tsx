@@ -71,10 +71,16 @@ export const deepTeal: NodeTheme = {
 };
 
 /* ---------- 3. Gradient-texture cache ---------- */
-const gradCache = new Map<string, Texture>();
+// keyed by the stops themselves: themes can share a ring colour but not a core
+const gradCache = new Map<string, { stops: string; tex: Texture }>();
+const stopsKey = (th: NodeTheme) =>
+  th.stops.map(([p, c]) => `${p}:${c}`).join("|");
+
 function gradTex(r: number, th: NodeTheme): Texture {
-  const key = `${r}-${th.ring.toString(16)}`;
-  if (gradCache.has(key)) return gradCache.get(key)!;
+  const stops = stopsKey(th);
+  const key = `${r}-${stops}`;
+  const hit = gradCache.get(key);
+  if (hit) return hit.tex;
 
   const d = r * 2;
   const cv = Object.assign(document.createElement("canvas"), {
@@ -91,16 +97,97 @@ function gradTex(r: number, th: NodeTheme): Texture {
 
   const tex = Texture.from(cv);
   tex.baseTexture.scaleMode = "linear";
-  gradCache.set(key, tex);
+  gradCache.set(key, { stops, tex });
   return tex;
 }
 
-/* ---------- 4. Helper: draw ring (solid or dashed) ---------- */
-function addRing(container: Container, radius: number, th: NodeTheme): void {
+/**
+ * Frees the gradients of every palette but `live`. Call once nothing drawn
+ * with the others is left (after a theme change has redrawn the nodes), or
+ * each colour a picker passes through stays in memory.
+ */
+export function releaseGradients(live: Iterable<NodeTheme>) {
+  const keep = new Set([...live].map(stopsKey));
+  for (const [key, { stops, tex }] of gradCache) {
+    if (keep.has(stops)) continue;
+    tex.destroy(true);
+    gradCache.delete(key);
+  }
+}
+
+/* ---------- 4. Shapes ---------- */
+/** Outline of a node's frame; the gradient core is always round. */
+export type NodeShape = "circle" | "hexagon" | "diamond" | "octagon";
+/** single: the status ring; double: plus a thin outer ring; frame: a heavy band outside. */
+export type RingTreatment = "single" | "double" | "frame";
+export interface NodeForm {
+  shape: NodeShape;
+  ring: RingTreatment;
+}
+
+const CIRCLE: NodeForm = { shape: "circle", ring: "single" };
+
+// sides and the angle of the first corner (y points down)
+const POLYGONS: Record<
+  Exclude<NodeShape, "circle">,
+  { sides: number; rot: number }
+> = {
+  hexagon: { sides: 6, rot: 0 }, // corners left and right
+  diamond: { sides: 4, rot: -Math.PI / 2 }, // corner on top
+  octagon: { sides: 8, rot: Math.PI / 8 }, // flat top
+};
+
+// how far the rim / outer ring / frame reach past `radius`
+const OUTSET: Record<RingTreatment, number> = {
+  single: 6,
+  double: 12,
+  frame: 18,
+};
+
+function corners(shape: NodeShape, r: number): number[] {
+  if (shape === "circle") return [];
+  const { sides, rot } = POLYGONS[shape];
+  const pts: number[] = [];
+  for (let i = 0; i < sides; i++) {
+    const a = rot + (i * 2 * Math.PI) / sides;
+    pts.push(Math.cos(a) * r, Math.sin(a) * r);
+  }
+  return pts;
+}
+
+function outline(g: Graphics, shape: NodeShape, r: number): Graphics {
+  return shape === "circle" ? g.circle(0, 0, r) : g.poly(corners(shape, r));
+}
+
+/** Centre to the side of a regular shape with circumradius `r`, along `angle`. */
+export function shapeExtent(shape: NodeShape, r: number, angle: number) {
+  if (shape === "circle") return r;
+  const { sides, rot } = POLYGONS[shape];
+  const step = (2 * Math.PI) / sides;
+  const k = (((angle - rot) % step) + step) % step; // angle past the last corner
+  return (r * Math.cos(Math.PI / sides)) / Math.cos(k - Math.PI / sides);
+}
+
+/** Design px from the centre to the outside of everything `makeThemedNode` draws. */
+export const nodeOuterRadius = (radius: number, form: NodeForm = CIRCLE) =>
+  radius + OUTSET[form.ring];
+
+// polygons are narrower than their corners; the core has to fit inside
+const coreRadius = (shape: NodeShape, r: number) =>
+  (shape === "circle" ? r : r * Math.cos(Math.PI / POLYGONS[shape].sides)) *
+  0.8;
+
+/* ---------- 5. Helper: draw ring (solid or dashed) ---------- */
+function addRing(
+  container: Container,
+  radius: number,
+  th: NodeTheme,
+  shape: NodeShape,
+): void {
   const g = new Graphics();
   const ringWidth = th.ringWidth ?? (th.ringStyle === "dash" ? 4 : 8);
 
-  if (th.ringStyle === "dash") {
+  if (th.ringStyle === "dash" && shape === "circle") {
     const dashes = th.dashCount ?? 24;
     const dashAngle = (2 * Math.PI) / dashes;
     const arcLen = dashAngle * 0.55; // 55 % filled, 45 % gap
@@ -109,34 +196,98 @@ function addRing(container: Container, radius: number, th: NodeTheme): void {
       g.arc(0, 0, radius, start, start + arcLen);
     }
     g.stroke({ width: ringWidth, color: th.ring });
+  } else if (th.ringStyle === "dash") {
+    dashedPolygon(g, corners(shape, radius), th.dashCount ?? 24);
+    g.stroke({ width: ringWidth, color: th.ring, cap: "butt" });
   } else {
-    g.circle(0, 0, radius).stroke({ width: ringWidth, color: th.ring });
+    outline(g, shape, radius).stroke({ width: ringWidth, color: th.ring });
   }
   container.addChild(g);
 }
 
-/* ---------- 5. Node factory ---------- */
+// Same 55 % dash rhythm as the round ring, spread over the perimeter.
+function dashedPolygon(g: Graphics, pts: number[], dashes: number) {
+  const n = pts.length / 2;
+  const at = (i: number) => ({ x: pts[(i % n) * 2], y: pts[(i % n) * 2 + 1] });
+  let perimeter = 0;
+  for (let i = 0; i < n; i++) {
+    const a = at(i);
+    const b = at(i + 1);
+    perimeter += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  const step = perimeter / dashes;
+  const on = step * 0.55;
+  let d = 0; // distance walked into the current dash period
+  for (let i = 0; i < n; i++) {
+    const a = at(i);
+    const b = at(i + 1);
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    let t = 0;
+    while (t < len) {
+      const inDash = d < on;
+      const next = Math.min(len, t + (inDash ? on - d : step - d));
+      if (inDash)
+        g.moveTo(
+          a.x + ((b.x - a.x) * t) / len,
+          a.y + ((b.y - a.y) * t) / len,
+        ).lineTo(
+          a.x + ((b.x - a.x) * next) / len,
+          a.y + ((b.y - a.y) * next) / len,
+        );
+      d = (d + next - t) % step;
+      t = next;
+    }
+  }
+}
+
+// The archetype's extra ring work outside the status ring.
+function addTreatment(
+  container: Container,
+  radius: number,
+  th: NodeTheme,
+  form: NodeForm,
+) {
+  const g = new Graphics();
+  if (form.ring === "double") {
+    outline(g, form.shape, radius + 10).stroke({
+      width: 2,
+      color: th.ring,
+      alpha: 0.8,
+    });
+  } else if (form.ring === "frame") {
+    outline(g, form.shape, radius + 12).stroke({ width: 10, color: th.rim });
+    outline(g, form.shape, radius + 7).stroke({ width: 2, color: th.ring });
+    outline(g, form.shape, radius + 17).stroke({ width: 2, color: th.ring });
+  } else return;
+  container.addChild(g);
+}
+
+/* ---------- 6. Node factory ---------- */
 export function makeThemedNode(
   x: number,
   y: number,
   radius: number,
   theme: NodeTheme,
+  form: NodeForm = CIRCLE,
 ): Container {
   const c = new Container();
   c.position.set(x, y);
 
   /* dark rim */
   c.addChild(
-    new Graphics()
-      .circle(0, 0, radius + 4)
-      .stroke({ width: 3, color: theme.rim }),
+    outline(new Graphics(), form.shape, radius + 4).stroke({
+      width: 3,
+      color: theme.rim,
+    }),
   );
 
-  /* ring (solid or dashed) */
-  addRing(c, radius, theme);
+  /* ring (solid or dashed), then the archetype's outer ring or frame */
+  addRing(c, radius, theme, form.shape);
+  addTreatment(c, radius, theme, form);
 
   /* gradient core + glow */
-  const core = new Sprite(gradTex(radius * 0.8, theme));
+  const inner = coreRadius(form.shape, radius);
+  const core = new Sprite(gradTex(Math.round(inner), theme));
   core.anchor.set(0.5);
   core.filters = [
     new GlowFilter({ distance: 12, outerStrength: 2.4, color: theme.glow }),
@@ -146,9 +297,30 @@ export function makeThemedNode(
   /* highlight speck */
   c.addChild(
     new Graphics()
-      .circle(-radius * 0.2, -radius * 0.2, radius * 0.18)
+      .circle(-inner * 0.25, -inner * 0.25, inner * 0.225)
       .fill({ color: 0xffffff, alpha: 0.35 }),
   );
 
   return c;
 }
+
+/* ---------- 7. Icon inside the core ---------- */
+/**
+ * Puts `icon` over the gradient core of a node from `makeThemedNode` (same
+ * radius and form), clipped to a circle and under the highlight speck.
+ */
+export function addCoreIcon(
+  node: Container,
+  icon: Texture,
+  radius: number,
+  form: NodeForm = CIRCLE,
+): void {
+  const r = coreRadius(form.shape, radius) * 0.85; // a band of the core shows
+  const sprite = new Sprite(icon);
+  sprite.anchor.set(0.5);
+  sprite.scale.set((r * 2) / Math.min(icon.width, icon.height));
+  const mask = new Graphics().circle(0, 0, r).fill(0xffffff);
+  sprite.mask = mask;
+  node.addChildAt(mask, node.children.length - 1);
+  node.addChildAt(sprite, node.children.length - 1);
+}
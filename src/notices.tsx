@@ -0,0 +1,280 @@
+// src/notices.tsx
+import { Application, Container, Graphics, Text } from "pixi.js";
+
+/* ───────────────────────── constants ───────────────────────── */
+const PAD = 8;
+const RADIUS = 6;
+const REPORT_WIDTH = 420;
+const MAX_REPORT_LINES = 18;
+const FONT = "Tahoma, Segoe UI, Noto Sans, system-ui, sans-serif";
+
+export type ToastTone = "info" | "warn";
+
+/* ───────────────────── toast ───────────────────── */
+let _toast: Container | null = null;
+
+/** Short message at the top of the screen that fades out by itself. */
+export function showToast(
+  app: Application,
+  uiLayer: Container,
+  text: string,
+  tone: ToastTone = "info",
+) {
+  if (_toast) {
+    _toast.parent?.removeChild(_toast);
+    _toast.destroy({ children: true });
+  }
+
+  const label = new Text({
+    text,
+    style: {
+      fill: tone === "warn" ? 0xffc766 : 0xf1f1f1,
+      fontFamily: FONT,
+      fontSize: 13,
+      wordWrap: true,
+      wordWrapWidth: REPORT_WIDTH,
+    },
+  });
+  const w = label.width + PAD * 2;
+  const h = label.height + PAD * 2;
+  const bg = new Graphics()
+    .roundRect(0, 0, w, h, RADIUS)
+    .fill({ color: 0x000000, alpha: 0.72 })
+    .stroke({
+      color: tone === "warn" ? 0xffc766 : 0xffffff,
+      width: 1,
+      alpha: tone === "warn" ? 0.6 : 0.25,
+    });
+  label.position.set(PAD, PAD);
+
+  const toast = new Container();
+  toast.addChild(bg, label);
+  toast.zIndex = 10_002;
+  toast.position.set(Math.round((app.screen.width - w) / 2), 16);
+  uiLayer.addChild(toast);
+  _toast = toast;
+
+  const start = performance.now();
+  const hold = 2200,
+    fade = 400;
+  const tick = (t: number) => {
+    if (toast.destroyed) return;
+    const k = t - start;
+    if (k > hold) toast.alpha = Math.max(0, 1 - (k - hold) / fade);
+    if (k < hold + fade) {
+      requestAnimationFrame(tick);
+      return;
+    }
+    uiLayer.removeChild(toast);
+    toast.destroy({ children: true });
+    if (_toast === toast) _toast = null;
+  };
+  requestAnimationFrame(tick);
+}
+
+/* ───────────────────── report panel ───────────────────── */
+export type ReportSection = { heading: string; lines: string[] };
+export type ReportAction = { id: string; label: string };
+
+function makeButton(label: string, onTap: () => void) {
+  const text = new Text({
+    text: label,
+    style: {
+      fill: 0xffffff,
+      fontFamily: FONT,
+      fontSize: 12,
+      fontWeight: "600",
+    },
+  });
+  const bw = Math.max(62, Math.round(text.width + 20)),
+    bh = 22;
+  const btn = new Container();
+  const patch = new Graphics()
+    .roundRect(0, 0, bw, bh, 6)
+    .fill({ color: 0xffffff, alpha: 0.12 })
+    .stroke({ color: 0xffffff, width: 1, alpha: 0.35 });
+  text.position.set(
+    Math.round((bw - text.width) / 2),
+    Math.round((bh - text.height) / 2 + 0.5),
+  );
+  btn.addChild(patch, text);
+  btn.eventMode = "static";
+  btn.cursor = "pointer";
+  btn.on("pointertap", onTap);
+  return btn;
+}
+
+/**
+ * Modal-ish list of findings, centered on screen. Resolves with the id of
+ * the action button pressed, or null when dismissed.
+ */
+export function openReportPanel(opts: {
+  app: Application;
+  uiLayer: Container;
+  title: string;
+  sections: ReportSection[];
+  emptyText?: string;
+  actions?: ReportAction[];
+  dismissLabel?: string;
+}): Promise<string | null> {
+  const { app, uiLayer } = opts;
+
+  const panel = new Container();
+  panel.eventMode = "static";
+  panel.zIndex = 10_001;
+
+  const bg = new Graphics();
+  panel.addChild(bg);
+
+  const body = new Container();
+  panel.addChild(body);
+
+  const title = new Text({
+    text: opts.title,
+    style: {
+      fill: 0xffffff,
+      fontFamily: FONT,
+      fontSize: 14,
+      fontWeight: "700",
+    },
+  });
+  body.addChild(title);
+  let y = title.height + 10;
+
+  const addLine = (text: string, color: number, indent = 0) => {
+    const t = new Text({
+      text,
+      style: {
+        fill: color,
+        fontFamily: FONT,
+        fontSize: 13,
+        wordWrap: true,
+        breakWords: true,
+        wordWrapWidth: REPORT_WIDTH - indent,
+        lineHeight: 18,
+      },
+    });
+    t.position.set(indent, y);
+    body.addChild(t);
+    y += t.height + 2;
+  };
+
+  const nonEmpty = opts.sections.filter((s) => s.lines.length > 0);
+  if (!nonEmpty.length)
+    addLine(opts.emptyText ?? "Nothing to report.", 0x52f7b4);
+  for (const s of nonEmpty) {
+    addLine(`${s.heading} (${s.lines.length})`, 0xffc766);
+    for (const line of s.lines.slice(0, MAX_REPORT_LINES))
+      addLine(`• ${line}`, 0xf1f1f1, 10);
+    if (s.lines.length > MAX_REPORT_LINES)
+      addLine(`…and ${s.lines.length - MAX_REPORT_LINES} more`, 0xaaaaaa, 10);
+    y += 6;
+  }
+
+  return new Promise((resolve) => {
+    const close = (result: string | null) => {
+      uiLayer.removeChild(panel);
+      panel.destroy({ children: true });
+      resolve(result);
+    };
+
+    const buttons = [
+      ...(opts.actions ?? []).map((a) =>
+        makeButton(a.label, () => close(a.id)),
+      ),
+      makeButton(opts.dismissLabel ?? "OK", () => close(null)),
+    ];
+    const gap = 10;
+    const rowW =
+      buttons.reduce((w, b) => w + b.width, 0) + gap * (buttons.length - 1);
+
+    const contentW = Math.max(REPORT_WIDTH, rowW);
+    const totalW = contentW + PAD * 2;
+    const totalH = y + PAD * 2 + 30;
+    body.position.set(PAD, PAD);
+
+    let bx = Math.round((totalW - rowW) / 2);
+    for (const b of buttons) {
+      b.position.set(bx, Math.round(totalH - PAD - 22));
+      panel.addChild(b);
+      bx += b.width + gap;
+    }
+
+    bg.roundRect(0, 0, totalW, totalH, RADIUS)
+      .fill({ color: 0x000000, alpha: 0.82 })
+      .stroke({ color: 0xffffff, width: 1, alpha: 0.25 });
+
+    panel.position.set(
+      Math.max(8, Math.round((app.screen.width - totalW) / 2)),
+      Math.max(8, Math.round((app.screen.height - totalH) / 3)),
+    );
+    uiLayer.addChild(panel);
+  });
+}
+
+/* ───────────────────── action bar ───────────────────── */
+export type ActionBar = {
+  moveTo: (x: number, y: number) => void;
+  close: () => void;
+};
+
+/**
+ * A label and a row of buttons centred under a screen point, for acting on
+ * whatever is selected. Stays open until `close()`.
+ */
+export function openActionBar(opts: {
+  uiLayer: Container;
+  at: { x: number; y: number };
+  label: string;
+  actions: ReportAction[];
+  onAction: (id: string) => void;
+}): ActionBar {
+  const { uiLayer } = opts;
+
+  const bar = new Container();
+  bar.eventMode = "static";
+  bar.zIndex = 9_500;
+
+  const label = new Text({
+    text: opts.label,
+    style: {
+      fill: 0xffffff,
+      fontFamily: FONT,
+      fontSize: 12,
+      fontWeight: "700",
+    },
+  });
+  label.position.set(PAD, PAD);
+
+  const gap = 6;
+  let x = PAD;
+  const y = PAD + label.height + 6;
+  const buttons = opts.actions.map((a) => {
+    const b = makeButton(a.label, () => opts.onAction(a.id));
+    b.position.set(x, y);
+    x += b.width + gap;
+    return b;
+  });
+
+  const w = Math.max(x - gap, label.width + PAD) + PAD;
+  const h = y + 22 + PAD;
+  const bg = new Graphics()
+    .roundRect(0, 0, w, h, RADIUS)
+    .fill({ color: 0x000000, alpha: 0.82 })
+    .stroke({ color: 0xffffff, width: 1, alpha: 0.25 });
+  bar.addChild(bg, label, ...buttons);
+  uiLayer.addChild(bar);
+
+  const moveTo = (px: number, py: number) =>
+    bar.position.set(Math.round(px - w / 2), Math.round(py + 12));
+  moveTo(opts.at.x, opts.at.y);
+
+  return {
+    moveTo,
+    close: () => {
+      if (bar.destroyed) return;
+      uiLayer.removeChild(bar);
+      bar.destroy({ children: true });
+    },
+  };
+}
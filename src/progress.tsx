@@ -0,0 +1,95 @@
+// src/progress.tsx
+import { NodeStatus, difficultyToLevel } from "./nodeTypes";
+
+/* ───────────────────────── Types ───────────────────────── */
+export type ProgressEntry = {
+  id: string;
+  title: string;
+  status: NodeStatus;
+  difficulty: number;
+  done: number; // objectives ticked
+  total: number; // objectives
+};
+
+export type LevelStats = {
+  level: number; // 1..5
+  nodes: number;
+  learned: number;
+  weighted: number; // 0..1
+};
+
+export type ProgressStats = {
+  counts: Record<NodeStatus, number>;
+  objectives: { done: number; total: number };
+  /** Node completion weighted by difficulty, 0..1. */
+  weighted: number;
+  levels: LevelStats[];
+  /** Available nodes that are cheapest to finish, easiest first. */
+  quickWins: ProgressEntry[];
+};
+
+const QUICK_WINS = 5;
+
+/* ───────────────────── stats ───────────────────── */
+// A learned node counts in full; otherwise by its ticked objectives.
+const completion = (e: ProgressEntry) =>
+  e.status === NodeStatus.Learned ? 1 : e.total ? e.done / e.total : 0;
+
+// +1 so that difficulty-0 nodes still count for something
+const weightOf = (e: ProgressEntry) => Math.max(0, e.difficulty) + 1;
+
+function weightedCompletion(entries: readonly ProgressEntry[]) {
+  let sum = 0,
+    weight = 0;
+  for (const e of entries) {
+    sum += completion(e) * weightOf(e);
+    weight += weightOf(e);
+  }
+  return weight ? sum / weight : 0;
+}
+
+export function computeProgress(
+  entries: readonly ProgressEntry[],
+): ProgressStats {
+  const counts = {
+    [NodeStatus.Locked]: 0,
+    [NodeStatus.Available]: 0,
+    [NodeStatus.Learned]: 0,
+  };
+  const objectives = { done: 0, total: 0 };
+  for (const e of entries) {
+    counts[e.status]++;
+    objectives.done += e.done;
+    objectives.total += e.total;
+  }
+
+  const levels = [1, 2, 3, 4, 5].map((level) => {
+    const inLevel = entries.filter(
+      (e) => difficultyToLevel(e.difficulty) === level,
+    );
+    return {
+      level,
+      nodes: inLevel.length,
+      learned: inLevel.filter((e) => e.status === NodeStatus.Learned).length,
+      weighted: weightedCompletion(inLevel),
+    };
+  });
+
+  const quickWins = entries
+    .filter((e) => e.status === NodeStatus.Available)
+    .sort(
+      (a, b) =>
+        a.difficulty - b.difficulty ||
+        a.total - a.done - (b.total - b.done) ||
+        a.title.localeCompare(b.title),
+    )
+    .slice(0, QUICK_WINS);
+
+  return {
+    counts,
+    objectives,
+    weighted: weightedCompletion(entries),
+    levels,
+    quickWins,
+  };
+}
@@ -0,0 +1,111 @@
+// src/search.tsx
+import { NodeStatus, difficultyToLevel } from "./nodeTypes";
+
+/* ───────────────────────── Types ───────────────────────── */
+/** What search and filters look at for one node (from its saved state). */
+export type SearchEntry = {
+  id: string;
+  title: string;
+  objectives: string[];
+  status: NodeStatus;
+  difficulty: number;
+};
+
+export type SearchHit = {
+  entry: SearchEntry;
+  score: number;
+  /** The objective that matched, when the title didn't match better. */
+  objective: string | null;
+};
+
+/** Empty sets and an empty text mean "don't filter on that". */
+export type NodeFilter = {
+  statuses: Set<NodeStatus>;
+  levels: Set<number>; // 1..5, see difficultyToLevel
+  text: string;
+};
+
+const MAX_HITS = 30;
+const TITLE_WEIGHT = 1.5; // a title hit beats the same hit in an objective
+
+/* ───────────────────── fuzzy matching ───────────────────── */
+const isWordStart = (t: string, i: number) =>
+  i === 0 || !/[\p{L}\p{N}]/u.test(t[i - 1]);
+
+/**
+ * Scores `text` against `query`, or null when it doesn't match. A plain
+ * substring wins (earlier and at a word start is better); otherwise every
+ * query character has to appear in order, with bonuses for runs of
+ * consecutive characters and word starts ("lin alg" finds "Linear Algebra").
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase().trim();
+  const t = text.toLowerCase();
+  if (!q) return null;
+
+  const at = t.indexOf(q);
+  if (at !== -1)
+    return 1000 + q.length * 10 - at + (isWordStart(t, at) ? 50 : 0);
+
+  let score = 0;
+  let from = 0;
+  let run = 0;
+  for (const ch of q) {
+    if (ch === " ") continue;
+    const j = t.indexOf(ch, from);
+    if (j === -1) return null;
+    run = j === from ? run + 1 : 0;
+    score += 1 + run * 2 + (isWordStart(t, j) ? 3 : 0);
+    from = j + 1;
+  }
+  return score;
+}
+
+/* ───────────────────── search ───────────────────── */
+/** Best matches first, over titles and objective text. */
+export function searchNodes(
+  entries: readonly SearchEntry[],
+  query: string,
+  limit = MAX_HITS,
+): SearchHit[] {
+  const hits: SearchHit[] = [];
+  for (const entry of entries) {
+    const hit = bestMatch(entry, query);
+    if (hit) hits.push(hit);
+  }
+  hits.sort(
+    (a, b) => b.score - a.score || a.entry.title.localeCompare(b.entry.title),
+  );
+  return hits.slice(0, limit);
+}
+
+function bestMatch(entry: SearchEntry, query: string): SearchHit | null {
+  const title = fuzzyScore(query, entry.title);
+  let best: SearchHit | null =
+    title === null
+      ? null
+      : { entry, score: title * TITLE_WEIGHT, objective: null };
+  for (const text of entry.objectives) {
+    const s = fuzzyScore(query, text);
+    if (s !== null && (!best || s > best.score))
+      best = { entry, score: s, objective: text };
+  }
+  return best;
+}
+
+/* ───────────────────── filters ───────────────────── */
+export const emptyFilter = (): NodeFilter => ({
+  statuses: new Set(),
+  levels: new Set(),
+  text: "",
+});
+
+export const filterActive = (f: NodeFilter) =>
+  f.statuses.size > 0 || f.levels.size > 0 || f.text.trim() !== "";
+
+export function matchesFilter(entry: SearchEntry, f: NodeFilter): boolean {
+  if (f.statuses.size && !f.statuses.has(entry.status)) return false;
+  if (f.levels.size && !f.levels.has(difficultyToLevel(entry.difficulty)))
+    return false;
+  return !f.text.trim() || bestMatch(entry, f.text) !== null;
+}
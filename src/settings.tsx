@@ -0,0 +1,40 @@
+// src/settings.tsx
+import { readJSON, writeJSON, SETTINGS_KEY } from "./storage";
+
+/* ───────────────────────── Types ───────────────────────── */
+/** Editor preferences and the learner's goal; not part of the tree, so export/import skip them. */
+export type Settings = {
+  grid: boolean;
+  gridPitch: number; // design px
+  goal: string | null; // node id
+  flows: boolean; // edges drawn as gold flow tubes
+};
+
+export const GRID_PITCHES = [25, 50, 100, 200];
+
+const DEFAULTS: Settings = {
+  grid: false,
+  gridPitch: 50,
+  goal: null,
+  flows: false,
+};
+
+/* ───────────────────── load / save ───────────────────── */
+/** Unknown or unreadable values fall back to the defaults field by field. */
+export function loadSettings(): Settings {
+  const r = readJSON<Partial<Settings>>(SETTINGS_KEY);
+  const saved = r.ok && r.value ? r.value : {};
+  return {
+    grid: typeof saved.grid === "boolean" ? saved.grid : DEFAULTS.grid,
+    gridPitch:
+      typeof saved.gridPitch === "number" && saved.gridPitch > 0
+        ? saved.gridPitch
+        : DEFAULTS.gridPitch,
+    goal: typeof saved.goal === "string" ? saved.goal : DEFAULTS.goal,
+    flows: typeof saved.flows === "boolean" ? saved.flows : DEFAULTS.flows,
+  };
+}
+
+export function saveSettings(s: Settings) {
+  writeJSON(SETTINGS_KEY, s);
+}
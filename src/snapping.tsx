@@ -0,0 +1,118 @@
+// src/snapping.tsx
+import type { Point } from "./layout";
+
+/* ───────────────────────── Types & constants ───────────────────────── */
+/** A design-space segment to draw while dragging. */
+export type Guide = {
+  kind: "align" | "spacing";
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+};
+
+export type SnapOptions = {
+  /** Grid pitch in design px, or null for no grid. */
+  grid: number | null;
+  /** How close (design px) a candidate has to be to pull the node onto it. */
+  threshold: number;
+  /** Nodes within this distance across the axis count as the same row/column. */
+  band: number;
+};
+
+export type SnapResult = Point & { guides: Guide[] };
+
+const MIN_GAP = 40; // ignore spacing between nodes that practically overlap
+
+type Axis = "x" | "y";
+type Candidate = {
+  value: number;
+  dist: number;
+  guides: (at: Point) => Guide[];
+};
+
+const other = (a: Axis): Axis => (a === "x" ? "y" : "x");
+
+// segment along `axis` from a to b, at `cross` on the other axis
+function segment(axis: Axis, a: number, b: number, cross: number): Guide {
+  return axis === "x"
+    ? { kind: "spacing", x1: a, y1: cross, x2: b, y2: cross }
+    : { kind: "spacing", x1: cross, y1: a, x2: cross, y2: b };
+}
+
+/* ───────────────────── snapping ───────────────────── */
+/**
+ * Each axis snaps on its own: first to another node's x/y, then to an equal
+ * gap between neighbours in the same row/column, then to the grid.
+ */
+export function snapPoint(
+  p: Point,
+  others: readonly Point[],
+  opts: SnapOptions,
+): SnapResult {
+  const x = snapAxis("x", p, others, opts);
+  const y = snapAxis("y", p, others, opts);
+  const at = { x: x?.value ?? p.x, y: y?.value ?? p.y };
+  // guides are built against the final point so both axes line up
+  return {
+    ...at,
+    guides: [...(x?.guides(at) ?? []), ...(y?.guides(at) ?? [])],
+  };
+}
+
+function snapAxis(
+  axis: Axis,
+  p: Point,
+  others: readonly Point[],
+  opts: SnapOptions,
+): Omit<Candidate, "dist"> | null {
+  const cross = other(axis);
+  const candidates: Candidate[] = [];
+  const consider = (value: number, guides: Candidate["guides"]) =>
+    candidates.push({ value, dist: Math.abs(value - p[axis]), guides });
+
+  // 1. line up with another node: one guide through every node on that line
+  for (const o of others) {
+    consider(o[axis], (at) => {
+      const line = others.filter((q) => Math.abs(q[axis] - o[axis]) < 0.5);
+      const span = [...line.map((q) => q[cross]), at[cross]];
+      const lo = Math.min(...span);
+      const hi = Math.max(...span);
+      return [
+        axis === "x"
+          ? { kind: "align", x1: o.x, y1: lo, x2: o.x, y2: hi }
+          : { kind: "align", x1: lo, y1: o.y, x2: hi, y2: o.y },
+      ];
+    });
+  }
+
+  // 2. equal spacing with the neighbours in the same row / column
+  const row = others
+    .filter((o) => Math.abs(o[cross] - p[cross]) <= opts.band)
+    .map((o) => o[axis])
+    .sort((a, b) => a - b);
+  const spaced = (stops: number[]) => (at: Point) =>
+    stops.slice(1).map((s, k) => segment(axis, stops[k], s, at[cross]));
+  for (let i = 0; i + 1 < row.length; i++) {
+    const a = row[i];
+    const b = row[i + 1];
+    const gap = b - a;
+    if (gap < MIN_GAP) continue;
+    if (gap >= MIN_GAP * 2) consider((a + b) / 2, spaced([a, (a + b) / 2, b]));
+    consider(b + gap, spaced([a, b, b + gap]));
+    consider(a - gap, spaced([a - gap, a, b]));
+  }
+
+  let best: Candidate | null = null;
+  for (const c of candidates)
+    if (c.dist <= opts.threshold && (!best || c.dist < best.dist)) best = c;
+  if (best) return best;
+
+  // 3. the grid, which always snaps but draws nothing
+  if (opts.grid)
+    return {
+      value: Math.round(p[axis] / opts.grid) * opts.grid,
+      guides: () => [],
+    };
+  return null;
+}
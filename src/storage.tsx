@@ -0,0 +1,336 @@
+// src/storage.tsx
+import type { StorageAdapter } from "./storageAdapters";
+
+/* ───────────────────────── Keys ───────────────────────── */
+// The key names carry their original "v1"; the layout version lives in SCHEMA_KEY.
+export const NODES_KEY = "tol_nodes_v1";
+export const EDGES_KEY = "tol_edges_v1";
+export const NODE_STATE_PREFIX = "tol.node.v1.";
+export const SCHEMA_KEY = "tol_schema";
+export const BACKUP_PREFIX = "tol_backup.v";
+export const SETTINGS_KEY = "tol_settings_v1";
+export const THEME_KEY = "tol_theme_v1";
+export const ICON_PREFIX = "tol.icon.v1.";
+
+export const nodeStateKey = (id: string) => `${NODE_STATE_PREFIX}${id}`;
+export const iconKey = (id: string) => `${ICON_PREFIX}${id}`;
+
+/** Bump together with a new entry in MIGRATIONS. */
+export const SCHEMA_VERSION = 2;
+
+export type SchemaRecord = { version: number; migratedAt?: string };
+
+const log = (...a: unknown[]) =>
+  console.log(`[storage ${new Date().toLocaleTimeString()}]`, ...a);
+
+/* ───────────────────── write lock ───────────────────── */
+// Set when the saved data is unreadable or from a newer build: every write
+// becomes a no-op so we never replace data we couldn't understand.
+let lockReason: string | null = null;
+
+export function lockStorage(reason: string) {
+  lockReason = reason;
+  log("writes disabled:", reason);
+}
+
+export const storageLocked = () => lockReason;
+
+/* ───────────────────── adapter & cache ───────────────────── */
+// Everything is loaded once through the adapter; reads are then served from
+// this cache and writes go back asynchronously, newest value per key wins.
+let adapter: StorageAdapter | null = null;
+let cache = new Map<string, string>();
+const dirty = new Map<string, string | null>(); // null = delete
+let draining: Promise<void> | null = null;
+let onError: (message: string) => void = () => {};
+
+export async function openStorage(a: StorageAdapter) {
+  adapter = a;
+  cache = await a.getAll();
+  log(`opened ${a.name}`, { keys: cache.size });
+}
+
+export const storageName = () => adapter?.name ?? "none";
+
+export function onStorageError(cb: (message: string) => void) {
+  onError = cb;
+}
+
+// A failed write waits on its own timer, growing per key, and then goes back
+// in the queue unless a newer value for the key arrived meanwhile; the rest of
+// the queue carries on. Errors that can't go away (storage full, a 4xx from
+// the server) are reported once and the write is dropped.
+const RETRY_MS = 1_000;
+const RETRY_MAX_MS = 30_000;
+type Retry = { value: string | null; ms: number; timer: number };
+const retrying = new Map<string, Retry>();
+const givenUp = new Set<string>();
+
+function permanent(e: unknown) {
+  if (e instanceof DOMException)
+    return /QuotaExceeded|QUOTA_REACHED/.test(e.name);
+  const status = (e as { status?: unknown } | null)?.status;
+  return (
+    typeof status === "number" &&
+    status >= 400 &&
+    status < 500 &&
+    status !== 408 &&
+    status !== 429
+  );
+}
+
+function settled(key: string) {
+  clearTimeout(retrying.get(key)?.timer);
+  retrying.delete(key);
+  givenUp.delete(key);
+}
+
+function failed(key: string, value: string | null, e: unknown) {
+  const name = adapter?.name ?? "storage";
+  const prev = retrying.get(key);
+  clearTimeout(prev?.timer);
+  if (permanent(e)) {
+    retrying.delete(key);
+    log("write failed, dropped", key, e);
+    if (!givenUp.has(key))
+      onError(`Couldn't save ${key} to ${name}: ${String(e)}`);
+    givenUp.add(key);
+    return;
+  }
+  const ms = prev ? Math.min(prev.ms * 2, RETRY_MAX_MS) : RETRY_MS;
+  log("write failed, retrying in", ms, "ms", key, e);
+  if (!prev) onError(`Couldn't save ${key} to ${name}: ${String(e)}`);
+  const timer = window.setTimeout(() => {
+    if (retrying.get(key)?.timer === timer && !dirty.has(key))
+      schedule(key, value);
+  }, ms);
+  retrying.set(key, { value, ms, timer });
+}
+
+async function drain() {
+  while (dirty.size && adapter) {
+    const [key, value] = dirty.entries().next().value!;
+    dirty.delete(key);
+    try {
+      if (value == null) await adapter.remove(key);
+      else await adapter.set(key, value);
+      settled(key);
+    } catch (e) {
+      failed(key, value, e);
+    }
+  }
+  draining = null;
+}
+
+function schedule(key: string, value: string | null) {
+  dirty.set(key, value);
+  if (!draining) draining = drain();
+}
+
+/** Resolves once every queued write has reached the adapter. */
+export const flushStorage = () => draining ?? Promise.resolve();
+export const hasPendingWrites = () =>
+  dirty.size > 0 || draining != null || retrying.size > 0;
+
+/* ───────────────────── JSON helpers ───────────────────── */
+export type ReadResult<T> =
+  | { ok: true; value: T | null }
+  | { ok: false; error: string };
+
+/** Missing keys read as `{ ok: true, value: null }`; only bad JSON fails. */
+export function readJSON<T>(key: string): ReadResult<T> {
+  const raw = cache.get(key);
+  if (raw == null) return { ok: true, value: null };
+  try {
+    return { ok: true, value: JSON.parse(raw) as T };
+  } catch (e) {
+    return { ok: false, error: `${key}: ${String(e)}` };
+  }
+}
+
+export function writeJSON(key: string, value: unknown) {
+  if (lockReason) return;
+  const raw = JSON.stringify(value);
+  cache.set(key, raw);
+  schedule(key, raw);
+}
+
+/** The cached string itself, so snapshots can share memory with the cache. */
+export const readRaw = (key: string) => cache.get(key) ?? null;
+
+export function writeRaw(key: string, raw: string) {
+  if (lockReason || cache.get(key) === raw) return;
+  cache.set(key, raw);
+  schedule(key, raw);
+}
+
+export const keysWithPrefix = (prefix: string) =>
+  [...cache.keys()].filter((k) => k.startsWith(prefix));
+
+export function removeKey(key: string) {
+  if (lockReason) return;
+  cache.delete(key);
+  schedule(key, null);
+}
+
+/* ───────────────────── snapshot ───────────────────── */
+/** Everything the app keeps, parsed but untyped so old layouts fit too. */
+export type StorageSnapshot = {
+  nodes: unknown[];
+  edges: unknown[];
+  nodeState: Record<string, unknown>;
+};
+
+function tolKeys(): string[] {
+  return [...cache.keys()].filter(
+    (k) =>
+      k === NODES_KEY || k === EDGES_KEY || k.startsWith(NODE_STATE_PREFIX),
+  );
+}
+
+function readSnapshot(): {
+  snapshot: StorageSnapshot | null;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const nodes = readJSON<unknown[]>(NODES_KEY);
+  const edges = readJSON<unknown[]>(EDGES_KEY);
+  if (!nodes.ok) errors.push(nodes.error);
+  if (!edges.ok) errors.push(edges.error);
+
+  const nodeState: Record<string, unknown> = {};
+  for (const k of tolKeys()) {
+    if (!k.startsWith(NODE_STATE_PREFIX)) continue;
+    const st = readJSON<unknown>(k);
+    if (st.ok) nodeState[k.slice(NODE_STATE_PREFIX.length)] = st.value;
+    else errors.push(st.error);
+  }
+
+  if (errors.length || !nodes.ok || !edges.ok)
+    return { snapshot: null, errors };
+  return {
+    snapshot: {
+      nodes: Array.isArray(nodes.value) ? nodes.value : [],
+      edges: Array.isArray(edges.value) ? edges.value : [],
+      nodeState,
+    },
+    errors,
+  };
+}
+
+function writeSnapshot(s: StorageSnapshot) {
+  for (const k of tolKeys()) {
+    if (k.startsWith(NODE_STATE_PREFIX)) removeKey(k);
+  }
+  writeJSON(NODES_KEY, s.nodes);
+  writeJSON(EDGES_KEY, s.edges);
+  for (const [id, st] of Object.entries(s.nodeState))
+    writeJSON(nodeStateKey(id), st);
+}
+
+/* ───────────────────── migrations ───────────────────── */
+type Migration = {
+  to: number;
+  describe: string;
+  up: (s: StorageSnapshot) => StorageSnapshot;
+};
+
+const asRecord = (v: unknown): Record<string, unknown> =>
+  typeof v === "object" && v !== null ? (v as Record<string, unknown>) : {};
+
+/** Ordered by `to`; each step upgrades exactly one version. */
+const MIGRATIONS: Migration[] = [
+  {
+    to: 2,
+    describe: "explicit edge kind, node rows mirror the per-node status",
+    up: (s) => ({
+      ...s,
+      edges: s.edges.map((e) => ({ kind: "curvy", ...asRecord(e) })),
+      nodes: s.nodes.map((n) => {
+        const row = asRecord(n);
+        const st = asRecord(s.nodeState[String(row.id)]);
+        return { ...row, status: st.status ?? row.status ?? "locked" };
+      }),
+    }),
+  },
+];
+
+export type MigrationReport = {
+  from: number;
+  to: number;
+  applied: string[];
+  errors: string[];
+  /** False when the stored data is newer than this build or unreadable. */
+  writable: boolean;
+};
+
+function readSchema(): SchemaRecord | null {
+  const r = readJSON<SchemaRecord>(SCHEMA_KEY);
+  return r.ok && r.value && typeof r.value.version === "number"
+    ? r.value
+    : null;
+}
+
+/**
+ * Brings the opened storage up to SCHEMA_VERSION one step at a time. The raw
+ * pre-migration values are copied to `tol_backup.v<from>` first, and
+ * nothing is written if any key fails to parse.
+ */
+export async function runMigrations(): Promise<MigrationReport> {
+  const hasData = tolKeys().length > 0;
+  const from = readSchema()?.version ?? (hasData ? 1 : SCHEMA_VERSION);
+  const report: MigrationReport = {
+    from,
+    to: from,
+    applied: [],
+    errors: [],
+    writable: true,
+  };
+
+  const refuse = (...errors: string[]) => {
+    report.errors.push(...errors);
+    report.writable = false;
+    lockStorage(errors[0]);
+    return report;
+  };
+
+  if (from > SCHEMA_VERSION)
+    return refuse(
+      `Saved data uses schema v${from}, this build only knows v${SCHEMA_VERSION}`,
+    );
+  if (from === SCHEMA_VERSION) {
+    if (!readSchema()) writeJSON(SCHEMA_KEY, { version: from });
+    return report;
+  }
+
+  const { snapshot, errors } = readSnapshot();
+  if (!snapshot) return refuse(...errors);
+
+  const backup: Record<string, string> = {};
+  for (const k of tolKeys()) backup[k] = cache.get(k)!;
+  // written straight through: migrating must wait until the backup is safe
+  const backupKey = `${BACKUP_PREFIX}${from}`;
+  try {
+    const raw = JSON.stringify(backup);
+    await adapter!.set(backupKey, raw);
+    cache.set(backupKey, raw);
+  } catch (e) {
+    return refuse(`Couldn't back up v${from} data before migrating: ${e}`);
+  }
+
+  let data = snapshot;
+  for (const m of MIGRATIONS) {
+    if (m.to <= from) continue;
+    data = m.up(data);
+    report.applied.push(`v${m.to - 1} → v${m.to}: ${m.describe}`);
+  }
+
+  writeSnapshot(data);
+  writeJSON(SCHEMA_KEY, {
+    version: SCHEMA_VERSION,
+    migratedAt: new Date().toISOString(),
+  });
+  report.to = SCHEMA_VERSION;
+  log("migrated", report);
+  return report;
+}
@@ -0,0 +1,175 @@
+// src/storageAdapters.tsx
+/* ───────────────────────── Interface ───────────────────────── */
+/**
+ * Async key/value backend. Values are the JSON strings the stores produce;
+ * `getAll` only returns keys that start with the adapter's prefix.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  getAll(): Promise<Map<string, string>>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+export type AdapterKind = "local" | "idb" | "http";
+
+const DEFAULT_PREFIX = "tol";
+
+/* ───────────────────── localStorage ───────────────────── */
+export function createLocalStorageAdapter(
+  prefix = DEFAULT_PREFIX,
+): StorageAdapter {
+  return {
+    name: "localStorage",
+    async getAll() {
+      const out = new Map<string, string>();
+      for (let i = 0; i < localStorage.length; i++) {
+        const k = localStorage.key(i);
+        if (k?.startsWith(prefix)) out.set(k, localStorage.getItem(k)!);
+      }
+      return out;
+    },
+    async get(key) {
+      return localStorage.getItem(key);
+    },
+    async set(key, value) {
+      localStorage.setItem(key, value);
+    },
+    async remove(key) {
+      localStorage.removeItem(key);
+    },
+  };
+}
+
+/* ───────────────────── IndexedDB ───────────────────── */
+const IDB_STORE = "kv";
+
+function idbRequest<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** One object store of string values keyed by the same keys as localStorage. */
+export function createIndexedDBAdapter(
+  dbName = "tree-of-virtual-life",
+  prefix = DEFAULT_PREFIX,
+): StorageAdapter {
+  let dbp: Promise<IDBDatabase> | null = null;
+  const db = () => {
+    if (!dbp) {
+      const req = indexedDB.open(dbName, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(IDB_STORE);
+      dbp = idbRequest(req);
+    }
+    return dbp;
+  };
+  const store = async (mode: IDBTransactionMode) =>
+    (await db()).transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+
+  return {
+    name: `IndexedDB (${dbName})`,
+    async getAll() {
+      const s = await store("readonly");
+      const [keys, values] = await Promise.all([
+        idbRequest(s.getAllKeys()),
+        idbRequest(s.getAll()),
+      ]);
+      const out = new Map<string, string>();
+      keys.forEach((k, i) => {
+        if (String(k).startsWith(prefix)) out.set(String(k), values[i]);
+      });
+      return out;
+    },
+    async get(key) {
+      const v = await idbRequest((await store("readonly")).get(key));
+      return typeof v === "string" ? v : null;
+    },
+    async set(key, value) {
+      await idbRequest((await store("readwrite")).put(value, key));
+    },
+    async remove(key) {
+      await idbRequest((await store("readwrite")).delete(key));
+    },
+  };
+}
+
+/* ───────────────────── HTTP ───────────────────── */
+/**
+ * REST contract (see scripts/tol-kv-server.mjs for a local implementation):
+ *   GET    {base}/kv        → 200 JSON object { key: value, … }
+ *   GET    {base}/kv/:key   → 200 raw value, 404 when missing
+ *   PUT    {base}/kv/:key   ← raw value as text/plain, → 204
+ *   DELETE {base}/kv/:key   → 204
+ */
+export function createHttpAdapter(
+  baseUrl: string,
+  prefix = DEFAULT_PREFIX,
+): StorageAdapter {
+  const base = baseUrl.replace(/\/+$/, "");
+  const url = (key?: string) =>
+    key == null ? `${base}/kv` : `${base}/kv/${encodeURIComponent(key)}`;
+  const check = (res: Response, what: string) => {
+    // the status tells storage whether a retry can help
+    if (!res.ok)
+      throw Object.assign(new Error(`${what}: HTTP ${res.status}`), {
+        status: res.status,
+      });
+    return res;
+  };
+
+  return {
+    name: `HTTP (${base})`,
+    async getAll() {
+      const res = check(await fetch(url()), "GET /kv");
+      const body = (await res.json()) as Record<string, string>;
+      return new Map(
+        Object.entries(body).filter(
+          ([k, v]) => k.startsWith(prefix) && typeof v === "string",
+        ),
+      );
+    },
+    async get(key) {
+      const res = await fetch(url(key));
+      if (res.status === 404) return null;
+      return check(res, `GET ${key}`).text();
+    },
+    async set(key, value) {
+      check(
+        await fetch(url(key), {
+          method: "PUT",
+          headers: { "Content-Type": "text/plain;charset=utf-8" },
+          body: value,
+        }),
+        `PUT ${key}`,
+      );
+    },
+    async remove(key) {
+      const res = await fetch(url(key), { method: "DELETE" });
+      if (res.status !== 404) check(res, `DELETE ${key}`);
+    },
+  };
+}
+
+/* ───────────────────── selection ───────────────────── */
+const DEFAULT_API = "http://localhost:8787";
+
+/**
+ * Picks the backend at startup: `?storage=local|idb|http` (plus `&api=` for
+ * http) wins over VITE_TOL_STORAGE / VITE_TOL_API; localStorage otherwise.
+ */
+export function adapterFromConfig(
+  search = window.location.search,
+): StorageAdapter {
+  const q = new URLSearchParams(search);
+  const kind = (q.get("storage") ??
+    import.meta.env.VITE_TOL_STORAGE ??
+    "local") as AdapterKind;
+  const api = q.get("api") ?? import.meta.env.VITE_TOL_API ?? DEFAULT_API;
+
+  if (kind === "idb") return createIndexedDBAdapter();
+  if (kind === "http") return createHttpAdapter(api);
+  return createLocalStorageAdapter();
+}
@@ -0,0 +1,254 @@
+// src/themes.tsx
+import {
+  brightAqua,
+  burntOrange,
+  deepTeal,
+  type NodeTheme,
+} from "./node_drawer";
+import { NodeStatus, statusToTheme } from "./nodeTypes";
+import { readJSON, writeJSON, THEME_KEY } from "./storage";
+
+/* ───────────────────────── Types ───────────────────────── */
+/** A palette per status; what a tree looks like. */
+export type TreeTheme = {
+  id: string;
+  name: string;
+  statuses: Record<NodeStatus, NodeTheme>;
+};
+
+/** Stored with the tree: the custom themes and which one is in use. */
+export type ThemeState = { active: string; custom: TreeTheme[] };
+
+const STATUSES = [NodeStatus.Locked, NodeStatus.Available, NodeStatus.Learned];
+
+/* ───────────────────── colours ───────────────────── */
+const channels = (c: number) => [(c >> 16) & 255, (c >> 8) & 255, c & 255];
+
+const mix = (c: number, to: number, k: number) => {
+  const [r, g, b] = channels(c);
+  return [r, g, b].map((v) => Math.round(v + (to - v) * k));
+};
+
+export const toHex = (c: number) => `#${c.toString(16).padStart(6, "0")}`;
+
+/** Radial core from one colour: white hotspot, the colour, a dark basin. */
+export function gradientStops(color: number): Array<[number, string]> {
+  const rgba = (v: number[], a: number) => `rgba(${v.join(",")},${a})`;
+  return [
+    [0.0, "rgba(255,255,255,1.00)"],
+    [0.15, rgba(mix(color, 255, 0.6), 0.95)],
+    [0.4, rgba(channels(color), 0.93)],
+    [0.7, rgba(mix(color, 0, 0.35), 0.9)],
+    [1.0, rgba(mix(color, 0, 0.6), 0.85)],
+  ];
+}
+
+/* ───────────────────── presets ───────────────────── */
+// Colour-blind-safe sets keep the classic ring shapes (thick solid, dashed,
+// solid) so status never rests on hue alone.
+const node = (core: number, t: Omit<NodeTheme, "stops">): NodeTheme => ({
+  ...t,
+  stops: gradientStops(core),
+});
+
+export const PRESET_THEMES: TreeTheme[] = [
+  {
+    id: "classic",
+    name: "Classic",
+    statuses: {
+      [NodeStatus.Locked]: deepTeal,
+      [NodeStatus.Available]: brightAqua,
+      [NodeStatus.Learned]: burntOrange,
+    },
+  },
+  {
+    // Okabe & Ito: grey / sky blue / orange
+    id: "okabe-ito",
+    name: "Colour-blind safe (Okabe–Ito)",
+    statuses: {
+      [NodeStatus.Locked]: node(0x5a5a5a, {
+        rim: 0x111111,
+        ring: 0x7a7a7a,
+        glow: 0x3a3a3a,
+        ringStyle: "solid",
+        ringWidth: 10,
+      }),
+      [NodeStatus.Available]: node(0x56b4e9, {
+        rim: 0x04263a,
+        ring: 0x56b4e9,
+        glow: 0x56b4e9,
+        ringStyle: "dash",
+        dashCount: 28,
+      }),
+      [NodeStatus.Learned]: node(0xe69f00, {
+        rim: 0x2e1f00,
+        ring: 0xe69f00,
+        glow: 0xf0c050,
+        ringStyle: "solid",
+      }),
+    },
+  },
+  {
+    // Paul Tol's high-contrast scheme: dark / blue / yellow
+    id: "high-contrast",
+    name: "Colour-blind safe (high contrast)",
+    statuses: {
+      [NodeStatus.Locked]: node(0x333333, {
+        rim: 0x000000,
+        ring: 0x555555,
+        glow: 0x222222,
+        ringStyle: "solid",
+        ringWidth: 10,
+      }),
+      [NodeStatus.Available]: node(0x004488, {
+        rim: 0x001a33,
+        ring: 0xffffff,
+        glow: 0x4477aa,
+        ringStyle: "dash",
+        dashCount: 28,
+      }),
+      [NodeStatus.Learned]: node(0xddaa33, {
+        rim: 0x332200,
+        ring: 0xddaa33,
+        glow: 0xffdd66,
+        ringStyle: "solid",
+      }),
+    },
+  },
+];
+
+export const isPreset = (id: string) => PRESET_THEMES.some((t) => t.id === id);
+
+/* ───────────────────── parse / serialise ───────────────────── */
+const isObj = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+// 0xRRGGBB numbers or "#rrggbb" strings.
+function readColor(v: unknown): number | null {
+  if (typeof v === "number" && Number.isInteger(v) && v >= 0 && v <= 0xffffff)
+    return v;
+  if (typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v))
+    return parseInt(v.slice(1), 16);
+  return null;
+}
+
+function readNodeTheme(raw: unknown, where: string, errors: string[]) {
+  if (!isObj(raw)) {
+    errors.push(`${where} is missing`);
+    return null;
+  }
+  const rim = readColor(raw.rim);
+  const ring = readColor(raw.ring);
+  const glow = readColor(raw.glow);
+  for (const [k, v] of [
+    ["rim", rim],
+    ["ring", ring],
+    ["glow", glow],
+  ] as const)
+    if (v === null) errors.push(`${where}.${k} is not a colour`);
+
+  const stops = Array.isArray(raw.stops)
+    ? raw.stops.filter(
+        (s): s is [number, string] =>
+          Array.isArray(s) &&
+          typeof s[0] === "number" &&
+          s[0] >= 0 &&
+          s[0] <= 1 &&
+          typeof s[1] === "string",
+      )
+    : [];
+  const core = readColor(raw.core);
+  if (stops.length < 2 && core === null)
+    errors.push(`${where} needs "stops" (2+ [offset, css colour]) or "core"`);
+  if (rim === null || ring === null || glow === null) return null;
+
+  const t: NodeTheme = {
+    rim,
+    ring,
+    glow,
+    stops: stops.length >= 2 ? stops : gradientStops(core ?? glow),
+    ringStyle: raw.ringStyle === "dash" ? "dash" : "solid",
+  };
+  if (typeof raw.ringWidth === "number" && raw.ringWidth > 0)
+    t.ringWidth = raw.ringWidth;
+  if (typeof raw.dashCount === "number" && raw.dashCount >= 3)
+    t.dashCount = Math.round(raw.dashCount);
+  return t;
+}
+
+/** `errors` name every field that made the theme unusable. */
+export function parseTheme(raw: unknown): {
+  theme: TreeTheme | null;
+  errors: string[];
+} {
+  if (!isObj(raw) || !isObj(raw.statuses))
+    return { theme: null, errors: ['Expected { "name", "statuses" }'] };
+  const errors: string[] = [];
+  const name =
+    typeof raw.name === "string" && raw.name.trim()
+      ? raw.name.trim()
+      : "Imported theme";
+  const statuses = {} as TreeTheme["statuses"];
+  for (const s of STATUSES) {
+    const t = readNodeTheme(raw.statuses[s], `statuses.${s}`, errors);
+    if (t) statuses[s] = t;
+  }
+  if (errors.length) return { theme: null, errors };
+  const id =
+    typeof raw.id === "string" && raw.id && !isPreset(raw.id)
+      ? raw.id
+      : `custom-${Date.now().toString(36)}`;
+  return { theme: { id, name, statuses }, errors };
+}
+
+/** Colours as "#rrggbb" so saved files are easy to hand-edit. */
+export function themeToJSON(theme: TreeTheme) {
+  const statuses: Record<string, unknown> = {};
+  for (const s of STATUSES) {
+    const t = theme.statuses[s];
+    statuses[s] = {
+      ...t,
+      rim: toHex(t.rim),
+      ring: toHex(t.ring),
+      glow: toHex(t.glow),
+    };
+  }
+  return { id: theme.id, name: theme.name, statuses };
+}
+
+/* ───────────────────── load / save / apply ───────────────────── */
+/** Unreadable custom themes are dropped; an unknown active id means Classic. */
+export function loadThemes(): ThemeState {
+  const r = readJSON<{ active?: unknown; custom?: unknown }>(THEME_KEY);
+  const saved = r.ok && r.value ? r.value : {};
+  const custom = (Array.isArray(saved.custom) ? saved.custom : [])
+    .map((t) => parseTheme(t).theme)
+    .filter((t): t is TreeTheme => !!t);
+  const known = [...PRESET_THEMES, ...custom].map((t) => t.id);
+  const active =
+    typeof saved.active === "string" && known.includes(saved.active)
+      ? saved.active
+      : PRESET_THEMES[0].id;
+  return { active, custom };
+}
+
+export function saveThemes(s: ThemeState) {
+  writeJSON(THEME_KEY, {
+    active: s.active,
+    custom: s.custom.map(themeToJSON),
+  });
+}
+
+export function findTheme(s: ThemeState, id: string): TreeTheme {
+  return (
+    [...PRESET_THEMES, ...s.custom].find((t) => t.id === id) ?? PRESET_THEMES[0]
+  );
+}
+
+/**
+ * Switches the live palettes in place, so everything reading `statusToTheme`
+ * picks them up on its next draw; nodes have to be redrawn by the caller.
+ */
+export function applyTheme(theme: TreeTheme) {
+  for (const s of STATUSES) statusToTheme[s] = theme.statuses[s];
+}
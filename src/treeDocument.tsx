@@ -0,0 +1,285 @@
+// src/treeDocument.tsx
+import { cycleThrough } from "./graph";
+import {
+  isArchetype,
+  NodeStatus,
+  type NodeState,
+  type Objective,
+  type StoredEdge,
+  type StoredNode,
+} from "./nodeTypes";
+
+/* ───────────────────────── Types & constants ───────────────────────── */
+export const TREE_DOC_FORMAT = "tree-of-virtual-life";
+export const TREE_DOC_VERSION = 1;
+
+/** Everything needed to rebuild a tree in another browser. */
+export type TreeDocument = {
+  format: typeof TREE_DOC_FORMAT;
+  version: number;
+  exportedAt: string;
+  nodes: StoredNode[];
+  nodeState: Record<string, NodeState>;
+  edges: StoredEdge[];
+  icons: Record<string, string>; // icon id → image data URL, for the icons in use
+};
+
+/** `errors` make the file unusable; `warnings` list rows that were dropped or patched. */
+export type ParsedTreeDocument = {
+  doc: TreeDocument | null;
+  errors: string[];
+  warnings: string[];
+};
+
+type EdgeStyleOverrides = NonNullable<StoredEdge["style"]>;
+
+const STATUSES = new Set<string>(Object.values(NodeStatus));
+const EDGE_KINDS = new Set(["linear", "curvy", "arc", "circuit"]);
+const EDGE_MARKERS = new Set(["none", "arrow", "chevrons"]);
+const EDGE_RELATIONS = new Set(["requires", "recommended", "any-of"]);
+const EDGE_STYLE_NUMBERS = [
+  "coreColor",
+  "coreWidth",
+  "shadowColor",
+  "shadowWidth",
+  "alpha",
+  "bend",
+] as const;
+
+/* ───────────────────── export ───────────────────── */
+export function buildTreeDocument(
+  nodes: StoredNode[],
+  nodeState: Record<string, NodeState>,
+  edges: StoredEdge[],
+  icons: Record<string, string> = {},
+): TreeDocument {
+  return {
+    format: TREE_DOC_FORMAT,
+    version: TREE_DOC_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes,
+    nodeState,
+    edges,
+    icons,
+  };
+}
+
+/* ───────────────────── import ───────────────────── */
+const isObj = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
+
+function readObjectives(v: unknown, where: string, warnings: string[]) {
+  if (!Array.isArray(v)) return undefined;
+  const out: Objective[] = [];
+  v.forEach((o, i) => {
+    if (!isObj(o) || typeof o.text !== "string") {
+      warnings.push(`${where}: objective #${i + 1} has no text, dropped`);
+      return;
+    }
+    out.push({
+      id: typeof o.id === "string" ? o.id : Math.random().toString(36).slice(2),
+      text: o.text,
+      done: o.done === true,
+    });
+  });
+  return out;
+}
+
+function readNodeState(v: unknown, id: string, warnings: string[]) {
+  if (!isObj(v)) {
+    warnings.push(`state for ${id} is not an object, ignored`);
+    return null;
+  }
+  const st: NodeState = {};
+  if (typeof v.status === "string" && STATUSES.has(v.status))
+    st.status = v.status as NodeStatus;
+  if (typeof v.title === "string") st.title = v.title;
+  if (typeof v.difficulty === "number" && Number.isFinite(v.difficulty))
+    st.difficulty = Math.max(0, Math.min(33, Math.round(v.difficulty)));
+  if (isArchetype(v.archetype)) st.archetype = v.archetype;
+  else if (v.archetype !== undefined)
+    warnings.push(`${id} has an unknown archetype, drawn as standard`);
+  if (typeof v.icon === "string" && v.icon) st.icon = v.icon;
+  const objectives = readObjectives(v.objectives, id, warnings);
+  if (objectives) st.objectives = objectives;
+  return st;
+}
+
+/**
+ * Validates an exported file row by row. Broken rows are dropped with a
+ * warning instead of failing the whole import; only an unreadable or
+ * foreign file is an error.
+ */
+export function parseTreeDocument(text: string): ParsedTreeDocument {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { doc: null, errors: [`Not valid JSON: ${String(e)}`], warnings };
+  }
+  if (!isObj(raw) || raw.format !== TREE_DOC_FORMAT)
+    errors.push(`Not a ${TREE_DOC_FORMAT} export`);
+  else if (typeof raw.version !== "number" || raw.version > TREE_DOC_VERSION)
+    errors.push(`Unsupported document version: ${String(raw.version)}`);
+  else if (!Array.isArray(raw.nodes)) errors.push(`"nodes" must be an array`);
+  if (errors.length || !isObj(raw)) return { doc: null, errors, warnings };
+
+  // nodes
+  const nodes: StoredNode[] = [];
+  const ids = new Set<string>();
+  (raw.nodes as unknown[]).forEach((n, i) => {
+    if (
+      !isObj(n) ||
+      typeof n.id !== "string" ||
+      !n.id ||
+      !Number.isFinite(n.x) ||
+      !Number.isFinite(n.y)
+    ) {
+      warnings.push(`node #${i + 1} needs an id and numeric x/y, dropped`);
+      return;
+    }
+    if (ids.has(n.id)) {
+      warnings.push(`duplicate node id ${n.id}, dropped`);
+      return;
+    }
+    let status = n.status as NodeStatus;
+    if (typeof n.status !== "string" || !STATUSES.has(n.status)) {
+      warnings.push(`node ${n.id} has no valid status, set to locked`);
+      status = NodeStatus.Locked;
+    }
+    ids.add(n.id);
+    const row: StoredNode = {
+      id: n.id,
+      x: n.x as number,
+      y: n.y as number,
+      status,
+    };
+    if (n.pinned === true) row.pinned = true;
+    nodes.push(row);
+  });
+
+  // per-node state
+  const nodeState: Record<string, NodeState> = {};
+  if (raw.nodeState !== undefined && !isObj(raw.nodeState))
+    warnings.push(`"nodeState" is not an object, ignored`);
+  for (const [id, v] of Object.entries(
+    isObj(raw.nodeState) ? raw.nodeState : {},
+  )) {
+    if (!ids.has(id)) {
+      warnings.push(`state for unknown node ${id}, dropped`);
+      continue;
+    }
+    const st = readNodeState(v, id, warnings);
+    if (st) nodeState[id] = st;
+  }
+
+  // icons — images only; a node whose icon didn't come along keeps none
+  const icons: Record<string, string> = {};
+  if (raw.icons !== undefined && !isObj(raw.icons))
+    warnings.push(`"icons" is not an object, ignored`);
+  for (const [id, url] of Object.entries(isObj(raw.icons) ? raw.icons : {})) {
+    if (typeof url === "string" && url.startsWith("data:image/"))
+      icons[id] = url;
+    else warnings.push(`icon ${id} is not an image data URL, dropped`);
+  }
+  for (const [id, st] of Object.entries(nodeState)) {
+    if (!st.icon || icons[st.icon]) continue;
+    warnings.push(`${id} uses missing icon ${st.icon}, icon removed`);
+    delete st.icon;
+  }
+
+  // edges — same rules as the edge store: no self-loops, duplicates or cycles
+  const edges: StoredEdge[] = [];
+  if (raw.edges !== undefined && !Array.isArray(raw.edges))
+    warnings.push(`"edges" is not an array, ignored`);
+  (Array.isArray(raw.edges) ? raw.edges : []).forEach((e, i) => {
+    if (!isObj(e) || typeof e.from !== "string" || typeof e.to !== "string") {
+      warnings.push(`edge #${i + 1} needs from/to ids, dropped`);
+      return;
+    }
+    const label = `edge ${e.from} → ${e.to}`;
+    if (!ids.has(e.from) || !ids.has(e.to)) {
+      warnings.push(`${label} points at a missing node, dropped`);
+      return;
+    }
+    if (edges.some((x) => x.from === e.from && x.to === e.to)) {
+      warnings.push(`${label} is a duplicate, dropped`);
+      return;
+    }
+    if (cycleThrough(e.from, e.to, edges)) {
+      warnings.push(`${label} would close a cycle, dropped`);
+      return;
+    }
+    const edge: StoredEdge = { from: e.from, to: e.to };
+    if (typeof e.kind === "string" && EDGE_KINDS.has(e.kind))
+      edge.kind = e.kind as StoredEdge["kind"];
+    if (typeof e.relation === "string" && EDGE_RELATIONS.has(e.relation))
+      edge.relation = e.relation as StoredEdge["relation"];
+    else if (e.relation !== undefined)
+      warnings.push(`${label} has an unknown relation, kept as "requires"`);
+    if (typeof e.group === "string" && e.group && edge.relation === "any-of")
+      edge.group = e.group;
+    if (isObj(e.style)) {
+      const style = parseEdgeStyle(e.style);
+      if (Object.keys(style).length) edge.style = style;
+      else warnings.push(`${label} has no usable style fields, style ignored`);
+    }
+    edges.push(edge);
+  });
+
+  const doc = buildTreeDocument(nodes, nodeState, edges, icons);
+  if (typeof raw.exportedAt === "string") doc.exportedAt = raw.exportedAt;
+  return { doc, errors, warnings };
+}
+
+// Keeps the known fields with the right types; the rest is dropped.
+function parseEdgeStyle(raw: Record<string, unknown>): EdgeStyleOverrides {
+  const style: EdgeStyleOverrides = {};
+  for (const k of EDGE_STYLE_NUMBERS) {
+    const v = raw[k];
+    if (typeof v === "number" && Number.isFinite(v) && v >= 0) style[k] = v;
+  }
+  if (typeof raw.marker === "string" && EDGE_MARKERS.has(raw.marker))
+    style.marker = raw.marker as EdgeStyleOverrides["marker"];
+  return style;
+}
+
+/* ───────────────────── merge ───────────────────── */
+const idNumber = (id: string) => parseInt(id.replace(/\D+/g, "") || "0", 10);
+
+/**
+ * Gives every imported node whose id is already taken a fresh `N###` id
+ * past the highest one in use, and rewrites state and edges to match.
+ */
+export function remapForMerge(
+  doc: TreeDocument,
+  takenIds: Iterable<string>,
+): { doc: TreeDocument; renamed: Map<string, string> } {
+  const taken = new Set(takenIds);
+  let max = 0;
+  for (const id of taken) max = Math.max(max, idNumber(id));
+  for (const n of doc.nodes) max = Math.max(max, idNumber(n.id));
+
+  const renamed = new Map<string, string>();
+  for (const n of doc.nodes) {
+    if (!taken.has(n.id)) continue;
+    renamed.set(n.id, `N${(++max).toString().padStart(3, "0")}`);
+  }
+  const map = (id: string) => renamed.get(id) ?? id;
+
+  const nodeState: Record<string, NodeState> = {};
+  for (const [id, st] of Object.entries(doc.nodeState)) nodeState[map(id)] = st;
+
+  return {
+    doc: {
+      ...doc,
+      nodes: doc.nodes.map((n) => ({ ...n, id: map(n.id) })),
+      nodeState,
+      edges: doc.edges.map((e) => ({ ...e, from: map(e.from), to: map(e.to) })),
+    },
+    renamed,
+  };
+}
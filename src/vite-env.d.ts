@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Storage backend at startup: "local" (default), "idb" or "http". */
+  readonly VITE_TOL_STORAGE?: string;
+  /** Base URL of the REST backend used by the "http" adapter. */
+  readonly VITE_TOL_API?: string;
+}